@@ -0,0 +1,103 @@
+// Service worker that keeps the app usable offline. Every generator runs in the
+// browser, so the page, its scripts, the fonts and the locale bundles are all it needs.
+
+// The page registers this worker with a fingerprint of its build, so every deployment
+// gets its own cache and the hashed files of older ones are dropped on activation.
+const BUILD_VERSION = new URL(self.location.href).searchParams.get('v') ?? 'dev';
+const CACHE_NAME = `chiselling-${BUILD_VERSION}`;
+const DEFAULT_LOCALE = 'en';
+
+// The app shell: one page per locale, the install metadata and the bundled
+// pixel fonts (public/fonts mirrors src/font).
+const PRECACHE_URLS = [
+  '/en',
+  '/ru',
+  '/manifest.webmanifest',
+  '/icon.svg',
+  '/favicon.ico',
+  '/fonts/QuinqueFive.ttf',
+  '/fonts/bud-5-pixel.otf',
+  '/fonts/microfont.otf',
+];
+
+// Hashed build output never changes under the same URL.
+const isImmutable = (url) => url.pathname.startsWith('/_next/static/');
+
+async function put(request, response) {
+  // A redirected response can't answer a navigation, see the locale middleware.
+  if (!response.ok || response.redirected) return;
+  const cache = await caches.open(CACHE_NAME);
+  await cache.put(request, response);
+}
+
+// Caches each URL on its own, so one failed request doesn't abort the rest.
+async function cacheUrls(urls) {
+  await Promise.all(urls.map(async (url) => {
+    try {
+      await put(url, await fetch(url, { cache: 'reload' }));
+    } catch {
+      // Offline or gone; it will be cached the next time it loads.
+    }
+  }));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(cacheUrls(PRECACHE_URLS).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// The page sends the scripts, styles and fonts it loaded before this worker took
+// control, plus the locale bundles it prefetched.
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'cache-urls' && Array.isArray(event.data.urls)) {
+    event.waitUntil(cacheUrls(event.data.urls.filter(url => new URL(url).origin === self.location.origin)));
+  }
+});
+
+// Pages: network first, so a new deployment shows up as soon as it is reachable.
+async function handleNavigation(event) {
+  const { request } = event;
+  try {
+    const response = await fetch(request);
+    event.waitUntil(put(request, response.clone()));
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreSearch: true })
+      ?? await caches.match(`/${DEFAULT_LOCALE}`);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Everything else: cache first for hashed files, stale-while-revalidate for the rest.
+async function handleAsset(event, url) {
+  const { request } = event;
+  const cached = await caches.match(request);
+  if (cached && isImmutable(url)) return cached;
+
+  const network = fetch(request);
+  // Keeps the worker alive until the copy is stored, even after the cached response went out.
+  event.waitUntil(network.then(response => put(request, response.clone())).catch(() => {}));
+  return cached ?? network;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Server actions, RSC payloads and other origins (the visit counter) go to the
+  // network as usual; offline, Next.js falls back to loading the cached page.
+  if (request.method !== 'GET' || url.origin !== self.location.origin || request.headers.has('RSC')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(event));
+  } else {
+    event.respondWith(handleAsset(event, url));
+  }
+});
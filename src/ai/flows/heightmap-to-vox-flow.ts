@@ -0,0 +1,28 @@
+'use server';
+/**
+ * @fileOverview A server action for generating terrain .vox models from a grayscale heightmap.
+ *
+ * - generateHeightmapToVoxFlow - A function that handles the heightmap to .vox generation process.
+ * - HeightmapToVoxInput - The input type for the flow.
+ * - HeightmapToVoxOutput - The return type for the flow.
+ */
+
+import { generateHeightmapToVox, type HeightmapToVoxInput } from '@/lib/heightmap-to-vox';
+
+export type { HeightmapToVoxInput };
+
+export interface HeightmapToVoxOutput {
+  schematicData: string;
+  width: number;
+  height: number;
+  depth: number;
+  isVox: boolean;
+  voxData: string; // Base64 encoded string
+  voxSize: {x: number, y: number, z: number};
+  totalVoxels: number;
+}
+
+export async function generateHeightmapToVoxFlow(input: HeightmapToVoxInput): Promise<HeightmapToVoxOutput> {
+  const result = generateHeightmapToVox(input);
+  return { ...result, voxData: Buffer.from(result.voxData).toString('base64') };
+}
@@ -0,0 +1,28 @@
+'use server';
+/**
+ * @fileOverview A server action that carves a .vox model from orthographic silhouettes (visual hull).
+ *
+ * - generateSilhouetteToVoxFlow - A function that intersects the extruded front, side and optional top views.
+ * - SilhouetteToVoxInput - The input type for the flow.
+ * - SilhouetteToVoxOutput - The return type for the flow.
+ */
+
+import { generateSilhouetteToVox, type SilhouetteToVoxInput } from '@/lib/silhouette-to-vox';
+
+export type { SilhouetteToVoxInput };
+
+export interface SilhouetteToVoxOutput {
+  schematicData: string;
+  width: number;
+  height: number;
+  depth: number;
+  isVox: boolean;
+  voxData: string; // Base64 encoded string
+  voxSize: {x: number, y: number, z: number};
+  totalVoxels: number;
+}
+
+export async function generateSilhouetteToVoxFlow(input: SilhouetteToVoxInput): Promise<SilhouetteToVoxOutput> {
+  const result = generateSilhouetteToVox(input);
+  return { ...result, voxData: Buffer.from(result.voxData).toString('base64') };
+}
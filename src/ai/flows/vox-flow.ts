@@ -8,6 +8,7 @@
  */
 
 import { voxToSchematic, type VoxShape } from '@/lib/schematic-utils';
+import { VoxTransformSchema, type VoxTransform } from '@/lib/vox-transform';
 import { z } from 'zod';
 
 // We define the output type here for client-side usage.
@@ -23,9 +24,9 @@ export interface VoxOutput {
 
 // This is the main exported function that the client will call.
 // It's a standard Next.js Server Action.
-export async function generateVoxFlow(input: VoxShape): Promise<VoxOutput> {
+export async function generateVoxFlow(input: VoxShape, transform?: VoxTransform): Promise<VoxOutput> {
   // Directly call the utility function to generate the schematic and raw .vox data (Uint8Array)
-  const result = voxToSchematic(input);
+  const result = voxToSchematic(input, VoxTransformSchema.optional().parse(transform));
 
   if (!result || !result.isVox || !result.voxData) {
       throw new Error('Flow did not return valid vox data.');
@@ -1,8 +1,9 @@
-import type { Metadata } from 'next';
+import type { Metadata, Viewport } from 'next';
 import { Oswald, Roboto_Condensed } from 'next/font/google';
 import './globals.css';
 import type { ReactNode } from 'react';
 import Script from 'next/script';
+import { ServiceWorkerRegistration } from '@/components/service-worker-registration';
 
 const oswald = Oswald({
   subsets: ['latin'],
@@ -19,6 +20,14 @@ const robotoCondensed = Roboto_Condensed({
 export const metadata: Metadata = {
   title: 'helper for chiselling',
   description: 'Create pixel art schematics for Vintage Story',
+  appleWebApp: {
+    capable: true,
+    title: 'Chiselling',
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#2c384a',
 };
 
 export default function RootLayout({
@@ -30,6 +39,7 @@ export default function RootLayout({
     <html lang="en" className={`${oswald.variable} ${robotoCondensed.variable} font-body antialiased dark`}>
       <body>
         {children}
+        <ServiceWorkerRegistration />
         <Script src="https://cdn.counter.dev/script.js" data-id="1615e2b7-7e18-4517-b0fc-49d5111c0e76" data-utcoffset="3" />
       </body>
     </html>
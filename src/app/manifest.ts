@@ -0,0 +1,17 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'helper for chiselling',
+    short_name: 'Chiselling',
+    description: 'Create pixel art schematics for Vintage Story',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#2c384a',
+    theme_color: '#2c384a',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/favicon.ico', sizes: '16x16 48x48', type: 'image/x-icon' },
+    ],
+  };
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronDown, Palette } from 'lucide-react';
+import { useI18n } from '@/locales/client';
+import { VS_BLOCK_PALETTE, type BlockColor } from '@/lib/vs-palette';
+
+interface BlockPaletteEditorProps {
+  value: BlockColor[];
+  onChange: (value: BlockColor[]) => void;
+}
+
+const toHex = ({ r, g, b }: BlockColor) => '#' + [r, g, b].map(c => c.toString(16).padStart(2, '0')).join('');
+
+export function BlockPaletteEditor({ value, onChange }: BlockPaletteEditorProps) {
+  const t = useI18n();
+  const enabledCount = value.filter(block => block.enabled !== false).length;
+
+  const updateBlock = (index: number, patch: Partial<BlockColor>) => {
+    onChange(value.map((block, i) => i === index ? { ...block, ...patch } : block));
+  };
+
+  const handleColorChange = (index: number, hex: string) => {
+    updateBlock(index, {
+      r: parseInt(hex.slice(1, 3), 16),
+      g: parseInt(hex.slice(3, 5), 16),
+      b: parseInt(hex.slice(5, 7), 16),
+    });
+  };
+
+  return (
+    <Collapsible className="rounded-lg border border-dashed border-input">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between">
+          <span className="flex items-center">
+            <Palette className="mr-2 h-4 w-4" />
+            {t('imageConverter.palette.title')}
+            <span className="ml-2 text-xs text-muted-foreground">{t('imageConverter.palette.enabled', { count: enabledCount, total: value.length })}</span>
+          </span>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 p-4 pt-2">
+        <p className="text-xs text-muted-foreground">{t('imageConverter.palette.hint')}</p>
+        <ScrollArea className="h-64">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead className="w-12">{t('imageConverter.palette.color')}</TableHead>
+                <TableHead>{t('imageConverter.palette.block')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {value.map((block, index) => (
+                <TableRow key={block.code}>
+                  <TableCell className="py-1">
+                    <Checkbox
+                      checked={block.enabled !== false}
+                      onCheckedChange={(checked) => updateBlock(index, { enabled: checked === true })}
+                      aria-label={block.name}
+                    />
+                  </TableCell>
+                  <TableCell className="py-1">
+                    <input
+                      type="color"
+                      value={toHex(block)}
+                      onChange={(e) => handleColorChange(index, e.target.value)}
+                      className="h-6 w-10 cursor-pointer rounded border border-input bg-transparent"
+                      aria-label={block.name}
+                    />
+                  </TableCell>
+                  <TableCell className="py-1">
+                    <p className="text-sm">{block.name}</p>
+                    <p className="font-mono text-xs text-muted-foreground">{block.code}</p>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+        <Button variant="outline" size="sm" onClick={() => onChange(VS_BLOCK_PALETTE)}>
+          {t('imageConverter.palette.reset')}
+        </Button>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
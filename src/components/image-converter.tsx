@@ -8,12 +8,18 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from "@/hooks/use-toast";
 import { SchematicPreview } from './schematic-preview';
+import { BlockPaletteEditor } from './block-palette-editor';
 import { UploadCloud, Loader2, HelpCircle } from 'lucide-react';
 import type { SchematicOutput } from '@/lib/schematic-utils';
 import { Slider } from '@/components/ui/slider';
 import { cn } from '@/lib/utils';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useI18n } from '@/locales/client';
+import { VS_BLOCK_PALETTE, type BlockColor } from '@/lib/vs-palette';
+import { MAX_QUANTIZE_COLORS, MIN_QUANTIZE_COLORS, type QuantizeMethod } from '@/lib/color-quantize';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { DitheringMode } from '@/lib/dithering';
 import {
   Dialog,
   DialogContent,
@@ -25,6 +31,8 @@ import {
 
 type ConversionMode = 'bw' | 'color';
 
+const DITHERING_MODES: DitheringMode[] = ['none', 'floyd-steinberg', 'atkinson', 'bayer4', 'bayer8'];
+
 export function ImageConverter() {
   const t = useI18n();
   const [file, setFile] = useState<File | null>(null);
@@ -32,6 +40,11 @@ export function ImageConverter() {
   const [schematic, setSchematic] = useState<SchematicOutput | null>(null);
   const [mode, setMode] = useState<ConversionMode>('bw');
   const [threshold, setThreshold] = useState([128]);
+  const [blockPalette, setBlockPalette] = useState<BlockColor[]>(VS_BLOCK_PALETTE);
+  const [limitColors, setLimitColors] = useState(false);
+  const [maxColors, setMaxColors] = useState([8]);
+  const [quantizer, setQuantizer] = useState<QuantizeMethod>('median-cut');
+  const [dithering, setDithering] = useState<DitheringMode>('none');
   const [outputWidth, setOutputWidth] = useState('64');
   const [isPending, setIsPending] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
@@ -140,7 +153,7 @@ export function ImageConverter() {
     setSchematic(null);
     setIsPending(true);
     
-    workerRef.current?.postMessage({ file, threshold: threshold[0], outputWidth: width, mode });
+    workerRef.current?.postMessage({ file, threshold: threshold[0], outputWidth: width, mode, blockPalette, maxColors: limitColors ? maxColors[0] : undefined, quantizer, dithering });
   };
   
   useEffect(() => {
@@ -256,6 +269,55 @@ export function ImageConverter() {
             </div>
           )}
 
+          <div className="space-y-2">
+            <Label htmlFor="dithering">{t('imageConverter.dithering.label')}</Label>
+            <Select value={dithering} onValueChange={(v) => setDithering(v as DitheringMode)}>
+              <SelectTrigger id="dithering">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DITHERING_MODES.map(ditheringMode => (
+                  <SelectItem key={ditheringMode} value={ditheringMode}>{t(`imageConverter.dithering.modes.${ditheringMode}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mode === 'color' && (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <Switch id="limit-colors" checked={limitColors} onCheckedChange={setLimitColors} />
+                <Label htmlFor="limit-colors">{t('imageConverter.quantize.limit')}</Label>
+              </div>
+              {limitColors && (
+                <div className="space-y-4 pl-2 border-l-2 border-primary/20 ml-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="max-colors">{t('imageConverter.quantize.maxColors')}: {maxColors[0]}</Label>
+                    <Slider
+                      id="max-colors"
+                      min={MIN_QUANTIZE_COLORS}
+                      max={MAX_QUANTIZE_COLORS}
+                      step={1}
+                      value={maxColors}
+                      onValueChange={setMaxColors}
+                    />
+                  </div>
+                  <RadioGroup value={quantizer} onValueChange={(v) => setQuantizer(v as QuantizeMethod)} className="flex space-x-4">
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="median-cut" id="quantizer-median-cut" />
+                      <Label htmlFor="quantizer-median-cut">{t('imageConverter.quantize.medianCut')}</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="k-means" id="quantizer-k-means" />
+                      <Label htmlFor="quantizer-k-means">{t('imageConverter.quantize.kMeans')}</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+              )}
+              <BlockPaletteEditor value={blockPalette} onChange={setBlockPalette} />
+            </div>
+          )}
+
           <Button onClick={handleConvert} disabled={isPending || !file} className="w-full uppercase font-bold tracking-wider">
             {isPending ? (
               <>
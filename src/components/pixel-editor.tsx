@@ -0,0 +1,459 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type PointerEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Eraser,
+  FlipHorizontal2,
+  FlipVertical2,
+  Grid3x3,
+  Hand,
+  Maximize2,
+  PaintBucket,
+  Pencil,
+  Redo2,
+  Slash,
+  Square,
+  Undo2,
+  ZoomIn,
+  ZoomOut,
+  type LucideIcon,
+} from 'lucide-react';
+import type { PaletteColor } from '@/lib/schematic-utils';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/locales/client';
+import {
+  floodFill,
+  linePoints,
+  mirrorPoint,
+  paintPoints,
+  rectPoints,
+  type MirrorOptions,
+  type PixelTool,
+  type PixelValue,
+  type Point,
+} from '@/lib/pixel-editing';
+
+interface PixelEditorProps {
+  pixels: PixelValue[];
+  width: number;
+  height: number;
+  palette?: PaletteColor[];
+  onChange: (pixels: PixelValue[]) => void;
+}
+
+type EditorTool = PixelTool | 'pan';
+
+// Screen pixels per image pixel, and where image pixel (0,0) sits in the viewport (CSS px).
+type View = { zoom: number, x: number, y: number };
+
+const CHUNK_SIZE = 16;
+const VIEW_HEIGHT = 400;
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 64;
+const ZOOM_STEP = 1.25;
+const MAX_HISTORY = 100;
+
+const TOOLS: { tool: EditorTool, icon: LucideIcon }[] = [
+  { tool: 'pan', icon: Hand },
+  { tool: 'pencil', icon: Pencil },
+  { tool: 'eraser', icon: Eraser },
+  { tool: 'line', icon: Slash },
+  { tool: 'rect', icon: Square },
+  { tool: 'fill', icon: PaintBucket },
+];
+
+type Stroke = { start: Point, last: Point, base: PixelValue[], draft: PixelValue[] };
+type Pan = { clientX: number, clientY: number, view: View };
+
+/**
+ * Canvas preview and editor for 2D schematics. The image lives in a 1:1 offscreen
+ * buffer; only the visible part is scaled onto the viewport, so large conversions
+ * cost the same to redraw as small ones.
+ */
+export function PixelEditor({ pixels, width, height, palette, onChange }: PixelEditorProps) {
+  const t = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const bufferRef = useRef<HTMLCanvasElement>();
+  const strokeRef = useRef<Stroke | null>(null);
+  const panRef = useRef<Pan | null>(null);
+  const emittedRef = useRef<PixelValue[] | null>(null);
+  const [tool, setTool] = useState<EditorTool>('pan');
+  const [mirror, setMirror] = useState<MirrorOptions>({ horizontal: false, vertical: false });
+  const [colorIndex, setColorIndex] = useState(1);
+  const [showChunks, setShowChunks] = useState(true);
+  const [history, setHistory] = useState<{ past: PixelValue[][], future: PixelValue[][] }>({ past: [], future: [] });
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [view, setView] = useState<View>({ zoom: 1, x: 0, y: 0 });
+  const [hover, setHover] = useState<Point | null>(null);
+
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const isColor = !!palette && palette.length > 0;
+
+  // A new schematic from outside starts a fresh history.
+  useEffect(() => {
+    if (pixels !== emittedRef.current) {
+      setHistory({ past: [], future: [] });
+      strokeRef.current = null;
+    }
+  }, [pixels]);
+
+  useEffect(() => {
+    if (palette && colorIndex > palette.length) setColorIndex(1);
+  }, [palette, colorIndex]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setViewportWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const fitView = useCallback(() => {
+    if (!viewportWidth) return;
+    const zoom = Math.min(MAX_ZOOM, viewportWidth / width, VIEW_HEIGHT / height);
+    setView({ zoom, x: (viewportWidth - width * zoom) / 2, y: (VIEW_HEIGHT - height * zoom) / 2 });
+  }, [viewportWidth, width, height]);
+
+  useEffect(() => {
+    fitView();
+  }, [fitView]);
+
+  const zoomAt = useCallback((screenX: number, screenY: number, factor: number) => {
+    setView(current => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom * factor));
+      const scale = zoom / current.zoom;
+      return { zoom, x: screenX - (screenX - current.x) * scale, y: screenY - (screenY - current.y) * scale };
+    });
+  }, []);
+
+  const renderBuffer = useCallback((source: PixelValue[]) => {
+    const buffer = bufferRef.current ?? document.createElement('canvas');
+    bufferRef.current = buffer;
+    if (buffer.width !== width || buffer.height !== height) {
+      buffer.width = width;
+      buffer.height = height;
+    }
+    const ctx = buffer.getContext('2d')!;
+
+    // Resolve the theme's foreground colour for B&W pixels.
+    const foreground = canvasRef.current ? getComputedStyle(canvasRef.current).getPropertyValue('--foreground').trim() : '0 0% 94%';
+    ctx.fillStyle = `hsl(${foreground})`;
+    ctx.fillRect(0, 0, 1, 1);
+    const [fr, fg, fb] = ctx.getImageData(0, 0, 1, 1).data;
+
+    const image = ctx.createImageData(width, height);
+    const data = image.data;
+    for (let i = 0; i < width * height; i++) {
+      const value = source[i];
+      const offset = i * 4;
+      if (value === true) {
+        data[offset] = fr; data[offset + 1] = fg; data[offset + 2] = fb; data[offset + 3] = 255;
+      } else if (typeof value === 'number' && value > 0 && palette) {
+        const color = palette[value - 1]; // colorIndex is 1-based
+        if (color) {
+          data[offset] = color.r; data[offset + 1] = color.g; data[offset + 2] = color.b; data[offset + 3] = color.a;
+        }
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [width, height, palette]);
+
+  const paint = useCallback(() => {
+    const canvas = canvasRef.current;
+    const buffer = bufferRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !buffer || !viewportWidth) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(viewportWidth * ratio) || canvas.height !== Math.round(VIEW_HEIGHT * ratio)) {
+      canvas.width = Math.round(viewportWidth * ratio);
+      canvas.height = Math.round(VIEW_HEIGHT * ratio);
+    }
+    const { zoom, x: originX, y: originY } = viewRef.current;
+    const primary = getComputedStyle(canvas).getPropertyValue('--primary').trim();
+
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, viewportWidth, VIEW_HEIGHT);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(buffer, originX, originY, width * zoom, height * zoom);
+
+    // Only lines inside the viewport are drawn.
+    const firstX = Math.max(0, Math.floor(-originX / zoom));
+    const lastX = Math.min(width, Math.ceil((viewportWidth - originX) / zoom));
+    const firstY = Math.max(0, Math.floor(-originY / zoom));
+    const lastY = Math.min(height, Math.ceil((VIEW_HEIGHT - originY) / zoom));
+    const drawLines = (step: number, style: string, lineWidth: number) => {
+      ctx.strokeStyle = style;
+      ctx.lineWidth = lineWidth;
+      ctx.beginPath();
+      for (let x = Math.ceil(firstX / step) * step; x <= lastX; x += step) {
+        const screenX = Math.round(originX + x * zoom) + 0.5;
+        ctx.moveTo(screenX, originY + firstY * zoom);
+        ctx.lineTo(screenX, originY + lastY * zoom);
+      }
+      for (let y = Math.ceil(firstY / step) * step; y <= lastY; y += step) {
+        const screenY = Math.round(originY + y * zoom) + 0.5;
+        ctx.moveTo(originX + firstX * zoom, screenY);
+        ctx.lineTo(originX + lastX * zoom, screenY);
+      }
+      ctx.stroke();
+    };
+    if (zoom >= 6) drawLines(1, 'rgba(240, 240, 240, 0.08)', 1);
+    if (showChunks) drawLines(CHUNK_SIZE, `hsl(${primary} / 0.6)`, 1);
+    ctx.strokeStyle = 'rgba(240, 240, 240, 0.2)';
+    ctx.strokeRect(Math.round(originX) - 0.5, Math.round(originY) - 0.5, Math.round(width * zoom) + 1, Math.round(height * zoom) + 1);
+  }, [viewportWidth, width, height, showChunks]);
+
+  useEffect(() => {
+    renderBuffer(pixels);
+    paint();
+  }, [renderBuffer, paint, pixels]);
+
+  useEffect(() => {
+    paint();
+  }, [paint, view]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // React registers wheel listeners as passive, so page scrolling could not be prevented.
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      zoomAt(event.clientX - rect.left, event.clientY - rect.top, event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const emit = (next: PixelValue[]) => {
+    emittedRef.current = next;
+    onChange(next);
+  };
+
+  const commit = (next: PixelValue[]) => {
+    setHistory(({ past }) => ({ past: [...past.slice(-(MAX_HISTORY - 1)), pixels], future: [] }));
+    emit(next);
+  };
+
+  const undo = () => {
+    const previous = history.past[history.past.length - 1];
+    if (!previous) return;
+    setHistory(({ past, future }) => ({ past: past.slice(0, -1), future: [pixels, ...future] }));
+    emit(previous);
+  };
+
+  const redo = () => {
+    const next = history.future[0];
+    if (!next) return;
+    setHistory(({ past, future }) => ({ past: [...past, pixels], future: future.slice(1) }));
+    emit(next);
+  };
+
+  const paintValue = (): PixelValue => {
+    if (tool === 'eraser') return isColor ? 0 : false;
+    return isColor ? colorIndex : true;
+  };
+
+  // Image coordinates under the pointer; may lie outside the image.
+  const toPoint = (event: PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const { zoom, x, y } = viewRef.current;
+    return [
+      Math.floor((event.clientX - rect.left - x) / zoom),
+      Math.floor((event.clientY - rect.top - y) / zoom),
+    ];
+  };
+
+  const isInside = ([x, y]: Point) => x >= 0 && y >= 0 && x < width && y < height;
+
+  const updateStroke = (stroke: Stroke, point: Point) => {
+    const value = paintValue();
+    if (tool === 'pencil' || tool === 'eraser') {
+      paintPoints(stroke.draft, width, height, linePoints(stroke.last, point), value, mirror);
+    } else {
+      stroke.draft = stroke.base.slice();
+      const shape = tool === 'line' ? linePoints(stroke.start, point) : rectPoints(stroke.start, point);
+      paintPoints(stroke.draft, width, height, shape, value, mirror);
+    }
+    stroke.last = point;
+    renderBuffer(stroke.draft);
+    paint();
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    // The middle button pans with any tool.
+    if (tool === 'pan' || event.button === 1) {
+      event.preventDefault();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      panRef.current = { clientX: event.clientX, clientY: event.clientY, view: viewRef.current };
+      return;
+    }
+    if (event.button !== 0) return;
+    const point = toPoint(event);
+
+    if (tool === 'fill') {
+      if (!isInside(point)) return;
+      const next = pixels.slice();
+      for (const seed of mirrorPoint(point, width, height, mirror)) {
+        floodFill(next, width, height, seed, paintValue());
+      }
+      commit(next);
+      return;
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const stroke = { start: point, last: point, base: pixels, draft: pixels.slice() };
+    strokeRef.current = stroke;
+    updateStroke(stroke, point);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const point = toPoint(event);
+    const hovered = isInside(point) ? point : null;
+    if (hovered?.[0] !== hover?.[0] || hovered?.[1] !== hover?.[1]) {
+      setHover(hovered);
+    }
+
+    const pan = panRef.current;
+    if (pan) {
+      setView({
+        ...pan.view,
+        x: pan.view.x + event.clientX - pan.clientX,
+        y: pan.view.y + event.clientY - pan.clientY,
+      });
+      return;
+    }
+
+    const stroke = strokeRef.current;
+    if (stroke && (point[0] !== stroke.last[0] || point[1] !== stroke.last[1])) {
+      updateStroke(stroke, point);
+    }
+  };
+
+  const handlePointerUp = () => {
+    panRef.current = null;
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    strokeRef.current = null;
+    commit(stroke.draft);
+  };
+
+  const zoomCenter = (factor: number) => zoomAt(viewportWidth / 2, VIEW_HEIGHT / 2, factor);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1">
+        {TOOLS.map(({ tool: value, icon: Icon }) => (
+          <Button
+            key={value}
+            type="button"
+            size="icon"
+            variant={tool === value ? 'default' : 'outline'}
+            className="h-8 w-8"
+            title={t(`pixelEditor.tools.${value}`)}
+            onClick={() => setTool(value)}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+        <div className="mx-1 h-6 w-px bg-border" />
+        <Button
+          type="button"
+          size="icon"
+          variant={mirror.horizontal ? 'default' : 'outline'}
+          className="h-8 w-8"
+          title={t('pixelEditor.mirrorHorizontal')}
+          onClick={() => setMirror(m => ({ ...m, horizontal: !m.horizontal }))}
+        >
+          <FlipHorizontal2 className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant={mirror.vertical ? 'default' : 'outline'}
+          className="h-8 w-8"
+          title={t('pixelEditor.mirrorVertical')}
+          onClick={() => setMirror(m => ({ ...m, vertical: !m.vertical }))}
+        >
+          <FlipVertical2 className="h-4 w-4" />
+        </Button>
+        <div className="mx-1 h-6 w-px bg-border" />
+        <Button type="button" size="icon" variant="outline" className="h-8 w-8" title={t('pixelEditor.undo')} onClick={undo} disabled={history.past.length === 0}>
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button type="button" size="icon" variant="outline" className="h-8 w-8" title={t('pixelEditor.redo')} onClick={redo} disabled={history.future.length === 0}>
+          <Redo2 className="h-4 w-4" />
+        </Button>
+        <div className="mx-1 h-6 w-px bg-border" />
+        <Button type="button" size="icon" variant="outline" className="h-8 w-8" title={t('pixelEditor.zoomIn')} onClick={() => zoomCenter(ZOOM_STEP)}>
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button type="button" size="icon" variant="outline" className="h-8 w-8" title={t('pixelEditor.zoomOut')} onClick={() => zoomCenter(1 / ZOOM_STEP)}>
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Button type="button" size="icon" variant="outline" className="h-8 w-8" title={t('pixelEditor.fit')} onClick={fitView}>
+          <Maximize2 className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant={showChunks ? 'default' : 'outline'}
+          className="h-8 w-8"
+          title={t('pixelEditor.chunks')}
+          onClick={() => setShowChunks(show => !show)}
+        >
+          <Grid3x3 className="h-4 w-4" />
+        </Button>
+      </div>
+      {palette && isColor && (
+        <div className="flex flex-wrap gap-1" aria-label={t('pixelEditor.palette')}>
+          {palette.map((color, index) => (
+            <button
+              key={index}
+              type="button"
+              title={color.name ?? `${color.r}, ${color.g}, ${color.b}`}
+              className={cn(
+                "h-6 w-6 rounded-sm border border-foreground/20",
+                colorIndex === index + 1 && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+              )}
+              style={{ backgroundColor: `rgb(${color.r}, ${color.g}, ${color.b})` }}
+              onClick={() => setColorIndex(index + 1)}
+            />
+          ))}
+        </div>
+      )}
+      <div ref={containerRef} className="w-full overflow-hidden border rounded-lg bg-black/20">
+        <canvas
+          ref={canvasRef}
+          className={cn("block w-full touch-none", tool === 'pan' ? 'cursor-grab active:cursor-grabbing' : 'cursor-crosshair')}
+          style={{ height: VIEW_HEIGHT }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={() => setHover(null)}
+        />
+      </div>
+      <div className="flex justify-between gap-2 text-xs text-muted-foreground font-mono">
+        <span>
+          {hover
+            ? t('pixelEditor.position', {
+                x: hover[0],
+                y: hover[1],
+                blockX: Math.floor(hover[0] / CHUNK_SIZE),
+                blockY: Math.floor(hover[1] / CHUNK_SIZE),
+                offsetX: hover[0] % CHUNK_SIZE,
+                offsetY: hover[1] % CHUNK_SIZE,
+              })
+            : `${width}x${height}`}
+        </span>
+        <span>{Math.round(view.zoom * 100)}%</span>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,31 @@
 
 'use client';
 
-import { useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
-import { Copy, Download, Package, Loader2, Info, Cuboid, Scaling } from 'lucide-react';
+import { Copy, Download, Package, Loader2, Info, Cuboid, Scaling, Boxes, FileJson, Shapes } from 'lucide-react';
 import type { SchematicOutput } from '@/lib/schematic-utils';
 import { Alert, AlertDescription, AlertTitle } from './ui/alert';
 import { useI18n } from '@/locales/client';
 import { VoxPreview } from './vox-preview';
+import { PixelEditor } from './pixel-editor';
+import type { PixelValue } from '@/lib/pixel-editing';
+import { createBlockArchive } from '@/lib/vox-blocks';
+import { DEFAULT_VS_MATERIAL, voxToVsSchematic } from '@/lib/vs-schematic';
+import { createObjArchive, voxToStl } from '@/lib/vox-mesh';
+import { createBuildGuide } from '@/lib/build-guide';
 
 interface SchematicPreviewProps {
   schematicOutput?: SchematicOutput | null;
@@ -20,17 +35,40 @@ interface SchematicPreviewProps {
 const CHUNK_SIZE = 16;
 const BLOCK_SIZE = 16;
 
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
 
 export function SchematicPreview({ schematicOutput, loading }: SchematicPreviewProps) {
   const t = useI18n();
   const { toast } = useToast();
   const gridRef = useRef<HTMLDivElement>(null);
+  const [isZipping, setIsZipping] = useState(false);
+  const [isMeshing, setIsMeshing] = useState(false);
+  const [vsMaterial, setVsMaterial] = useState(DEFAULT_VS_MATERIAL);
+  const [editedPixels, setEditedPixels] = useState<PixelValue[] | null>(null);
+  const [editedVoxData, setEditedVoxData] = useState<Uint8Array | null>(null);
+
+  // Edits belong to one schematic; a new result starts from its own pixels and voxels.
+  useEffect(() => {
+    setEditedPixels(null);
+    setEditedVoxData(null);
+  }, [schematicOutput]);
 
   const finalSchematicData = schematicOutput?.schematicData;
   const isVox = schematicOutput?.isVox;
+  const currentPixels = editedPixels ?? schematicOutput?.pixels;
+  const currentVoxData = editedVoxData ?? schematicOutput?.voxData;
   const isScaled = schematicOutput && (schematicOutput.originalWidth || schematicOutput.originalHeight) && (schematicOutput.width !== schematicOutput.originalWidth || schematicOutput.height !== schematicOutput.originalHeight);
   
-  const getTotalBlocksText = () => {
+  const getTotalBlocks = () => {
     if (!isVox || !schematicOutput || !schematicOutput.voxSize) {
       return null;
     }
@@ -44,10 +82,11 @@ export function SchematicPreview({ schematicOutput, loading }: SchematicPreviewP
     const blocksY = Math.ceil(voxSize.z / BLOCK_SIZE); // height
     const blocksZ = Math.ceil(voxSize.y / BLOCK_SIZE); // depth
 
-    return (blocksX * blocksY * blocksZ).toLocaleString();
+    return blocksX * blocksY * blocksZ;
   };
 
-  const totalBlocks = getTotalBlocksText();
+  const blockCount = getTotalBlocks();
+  const totalBlocks = blockCount?.toLocaleString();
 
 
   const handleCopy = () => {
@@ -63,18 +102,10 @@ export function SchematicPreview({ schematicOutput, loading }: SchematicPreviewP
       return;
     }
     
-    if (isVox && schematicOutput.voxData) {
+    if (isVox && currentVoxData) {
       try {
-        const blob = new Blob([schematicOutput.voxData], { type: 'application/octet-stream' });
-        
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'schematic.vox';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        const blob = new Blob([currentVoxData], { type: 'application/octet-stream' });
+        downloadBlob(blob, 'schematic.vox');
         return;
       } catch (e) {
          toast({ title: t('schematicPreview.errors.downloadFailed'), description: String(e), variant: 'destructive' });
@@ -88,7 +119,8 @@ export function SchematicPreview({ schematicOutput, loading }: SchematicPreviewP
     }
 
     try {
-        const { pixels, width, height, palette } = schematicOutput;
+        const { width, height, palette } = schematicOutput;
+        const pixels = currentPixels;
         if (!width || !height || !pixels) {
             toast({ title: t('schematicPreview.errors.noPixelData'), variant: 'destructive' });
             return;
@@ -159,14 +191,7 @@ export function SchematicPreview({ schematicOutput, loading }: SchematicPreviewP
 
         canvas.toBlob((blob) => {
             if (blob) {
-                const url = URL.createObjectURL(blob);
-                const a = document.createElement('a');
-                a.href = url;
-                a.download = 'schematic.png';
-                document.body.appendChild(a);
-                a.click();
-                document.body.removeChild(a);
-                URL.revokeObjectURL(url);
+                downloadBlob(blob, 'schematic.png');
             } else {
                  toast({ title: t('schematicPreview.errors.blobFailed'), variant: "destructive" });
             }
@@ -178,56 +203,107 @@ export function SchematicPreview({ schematicOutput, loading }: SchematicPreviewP
     }
   };
 
-  const renderPixelGrid = () => {
-    if (!schematicOutput || !schematicOutput.pixels || !schematicOutput.width || !schematicOutput.height) {
-      return null;
+  const handleDownloadBlocks = async () => {
+    if (!currentVoxData) {
+      toast({ title: t('schematicPreview.errors.noData'), variant: 'destructive' });
+      return;
     }
 
-    const { pixels, width, height, palette } = schematicOutput;
-    
-    if (!Array.isArray(pixels) || pixels.length === 0 || !width || !height) {
-       return null;
+    setIsZipping(true);
+    try {
+      const archive = await createBlockArchive(currentVoxData);
+      downloadBlob(archive, 'schematic-blocks.zip');
+    } catch (e) {
+      toast({ title: t('schematicPreview.errors.splitFailed'), description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    } finally {
+      setIsZipping(false);
     }
-    
-    const containerWidth = 400; // max width for the preview area in px
-    const pixelSize = Math.max(1, Math.floor(containerWidth / width));
-
-
-    return Array.from({ length: height }).map((_, y) => (
-      Array.from({ length: width }).map((_, x) => {
-        const index = y * width + x;
-        const pixelValue = pixels[index];
-        const isTopBoundary = y > 0 && y % CHUNK_SIZE === 0;
-        const isLeftBoundary = x > 0 && x % CHUNK_SIZE === 0;
-        
-        let backgroundColor = 'transparent';
-        if (typeof pixelValue === 'boolean' && pixelValue) {
-            backgroundColor = 'hsl(var(--foreground))';
-        } else if (typeof pixelValue === 'number' && pixelValue > 0 && palette) {
-            const color = palette[pixelValue -1]; // colorIndex is 1-based
-            if (color) {
-                backgroundColor = `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a / 255})`;
-            }
-        }
+  };
 
-        return (
-          <div
-            key={`${y}-${x}`}
-            className="w-full h-full"
-            style={{
-              backgroundColor: backgroundColor,
-              boxShadow: `
-                ${isLeftBoundary ? `inset ${pixelSize > 4 ? '1px' : '0.5px'} 0 0 hsl(var(--primary) / 0.5)` : ''}
-                ${isTopBoundary ? `inset 0 ${pixelSize > 4 ? '1px' : '0.5px'} 0 hsl(var(--primary) / 0.5)` : ''}
-              `.trim().replace(/\s+/g, ' ') || 'none'
-            }}
-          ></div>
-        );
-      })
-    )).flat();
+  const handleDownloadVsSchematic = () => {
+    if (!currentVoxData) {
+      toast({ title: t('schematicPreview.errors.noData'), variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const schematic = voxToVsSchematic(currentVoxData, { material: vsMaterial, palette: schematicOutput?.voxPalette });
+      const blob = new Blob([JSON.stringify(schematic)], { type: 'application/json' });
+      downloadBlob(blob, 'schematic.json');
+    } catch (e) {
+      toast({ title: t('schematicPreview.errors.downloadFailed'), description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    }
+  };
+
+  const handleDownloadMesh = async (format: 'obj' | 'stl') => {
+    if (!currentVoxData) {
+      toast({ title: t('schematicPreview.errors.noData'), variant: 'destructive' });
+      return;
+    }
+
+    setIsMeshing(true);
+    try {
+      if (format === 'obj') {
+        downloadBlob(await createObjArchive(currentVoxData), 'schematic-obj.zip');
+      } else {
+        downloadBlob(new Blob([voxToStl(currentVoxData)], { type: 'model/stl' }), 'schematic.stl');
+      }
+    } catch (e) {
+      toast({ title: t('schematicPreview.errors.downloadFailed'), description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    } finally {
+      setIsMeshing(false);
+    }
+  };
+
+  const handleDownloadBuildGuide = () => {
+    if (!currentVoxData) {
+      toast({ title: t('schematicPreview.errors.noData'), variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const guide = createBuildGuide(currentVoxData, {
+        title: t('schematicPreview.guide.title'),
+        block: ({ x, y, z }) => t('schematicPreview.guide.block', { x, y, z }),
+        layer: (layer, height) => t('schematicPreview.guide.layer', { layer, height }),
+        voxels: (count) => t('schematicPreview.guide.voxels', { count }),
+        page: (page, total) => t('schematicPreview.guide.page', { page, total }),
+        orientation: t('schematicPreview.guide.orientation'),
+      });
+      downloadBlob(new Blob([guide], { type: 'text/html' }), 'schematic-guide.html');
+    } catch (e) {
+      toast({ title: t('schematicPreview.errors.downloadFailed'), description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    }
+  };
+
+
+  const renderPaletteLegend = () => {
+    const palette = schematicOutput?.palette;
+    if (isVox || !palette || !palette.some(color => color.name)) {
+      return null;
+    }
+
+    const counts = new Array<number>(palette.length + 1).fill(0);
+    currentPixels?.forEach(p => {
+      if (typeof p === 'number') counts[p]++;
+    });
+
+    return (
+      <div className="space-y-2">
+        <p className="text-sm font-semibold">{t('schematicPreview.legendTitle')}</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+          {palette.map((color, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm">
+              <span className="h-4 w-4 shrink-0 rounded-sm border border-foreground/20" style={{ backgroundColor: `rgb(${color.r}, ${color.g}, ${color.b})` }} />
+              <span className="font-mono text-xs text-muted-foreground">{index + 1}</span>
+              <span className="truncate">{color.name ?? `${color.r}, ${color.g}, ${color.b}`}</span>
+              <span className="ml-auto text-xs text-muted-foreground">{counts[index + 1].toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
   };
-  
-  const pixelGrid = renderPixelGrid();
 
   const renderContent = () => {
     if (loading) {
@@ -248,10 +324,10 @@ export function SchematicPreview({ schematicOutput, loading }: SchematicPreviewP
       );
     }
     
-    if (isVox && schematicOutput.voxData) {
+    if (isVox && currentVoxData) {
         return (
           <div className="space-y-4">
-            <VoxPreview voxData={schematicOutput.voxData} />
+            <VoxPreview voxData={currentVoxData} onChange={setEditedVoxData} />
             {totalBlocks && (
               <Alert variant="default" className="border-primary/30 bg-primary/10">
                   <Package className="h-4 w-4 text-primary" />
@@ -261,6 +337,11 @@ export function SchematicPreview({ schematicOutput, loading }: SchematicPreviewP
                   </AlertDescription>
               </Alert>
             )}
+            <div className="space-y-2">
+              <Label htmlFor="vs-material">{t('schematicPreview.vsMaterialLabel')}</Label>
+              <Input id="vs-material" value={vsMaterial} onChange={(e) => setVsMaterial(e.target.value)} placeholder={DEFAULT_VS_MATERIAL} />
+              <p className="text-xs text-muted-foreground">{t('schematicPreview.vsMaterialHint')}</p>
+            </div>
           </div>
         );
     }
@@ -281,28 +362,22 @@ export function SchematicPreview({ schematicOutput, loading }: SchematicPreviewP
                 </AlertDescription>
             </Alert>
         )}
-        {pixelGrid && schematicOutput && schematicOutput.width > 0 && schematicOutput.height > 0 ? (
-           <div ref={gridRef} className="w-full overflow-auto border rounded-lg p-1 bg-black/20 flex justify-center items-center" style={{maxHeight: '400px'}}>
-            <div
-              className="grid border-r border-b border-foreground/10"
-              style={{ 
-                width: '100%',
-                margin: 'auto',
-                maxWidth: `${schematicOutput.width * 1}rem`,
-                gridTemplateColumns: `repeat(${schematicOutput.width}, minmax(0, 1fr))`,
-                aspectRatio: `${schematicOutput.width} / ${schematicOutput.height}`,
-                backgroundImage: 'linear-gradient(rgba(240, 240, 240, 0.05) 1px, transparent 1px), linear-gradient(90deg, rgba(240, 240, 240, 0.05) 1px, transparent 1px)',
-                backgroundSize: '1rem 1rem',
-              }}
-            >
-              {pixelGrid}
-            </div>
+        {currentPixels && currentPixels.length > 0 && schematicOutput.width > 0 && schematicOutput.height > 0 ? (
+          <div ref={gridRef}>
+            <PixelEditor
+              pixels={currentPixels}
+              width={schematicOutput.width}
+              height={schematicOutput.height}
+              palette={schematicOutput.palette}
+              onChange={setEditedPixels}
+            />
           </div>
         ) : (
            <div className="border rounded-lg p-2 bg-black/20 aspect-square overflow-hidden flex items-center justify-center">
             <p className="text-muted-foreground text-sm text-center">{t('schematicPreview.noPreview')}</p>
           </div>
         )}
+        {renderPaletteLegend()}
         <Textarea readOnly value={finalSchematicData} className="h-24 font-mono text-xs bg-black/20 border-input" />
       </div>
     );
@@ -327,6 +402,37 @@ export function SchematicPreview({ schematicOutput, loading }: SchematicPreviewP
           <Button onClick={handleDownload} className="w-full uppercase font-bold tracking-wider">
             <Download className="mr-2 h-4 w-4" /> {t('common.download')} {isVox ? '.vox' : '.png'}
           </Button>
+          {isVox && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="w-full uppercase font-bold tracking-wider" disabled={isMeshing}>
+                  {isMeshing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Shapes className="mr-2 h-4 w-4" />} {t('schematicPreview.downloadExport')}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleDownloadMesh('obj')}>
+                  {t('schematicPreview.meshFormats.obj')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleDownloadMesh('stl')}>
+                  {t('schematicPreview.meshFormats.stl')}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={handleDownloadBuildGuide}>
+                  {t('schematicPreview.buildGuide')}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {isVox && (
+            <Button onClick={handleDownloadVsSchematic} variant="outline" className="w-full uppercase font-bold tracking-wider">
+              <FileJson className="mr-2 h-4 w-4" /> {t('schematicPreview.downloadVsSchematic')}
+            </Button>
+          )}
+          {isVox && blockCount !== null && blockCount > 1 && (
+            <Button onClick={handleDownloadBlocks} variant="outline" className="w-full uppercase font-bold tracking-wider" disabled={isZipping}>
+              {isZipping ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Boxes className="mr-2 h-4 w-4" />} {t('schematicPreview.downloadBlocks')}
+            </Button>
+          )}
         </CardFooter>
       )}
     </Card>
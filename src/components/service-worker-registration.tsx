@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Same-origin files the page has loaded so far: scripts, styles, fonts, workers.
+function loadedResources(): string[] {
+  return performance.getEntriesByType('resource')
+    .map(entry => entry.name)
+    .filter(url => new URL(url).origin === window.location.origin);
+}
+
+/**
+ * Fingerprint of the build the page comes from. The webpack runtime chunk carries
+ * the hashes of all other chunks, so its file name changes whenever any of them does.
+ */
+function buildVersion(): string {
+  const scripts = Array.from(document.scripts, script => script.src).filter(src => src.includes('/_next/static/'));
+  const runtime = scripts.map(src => src.match(/\/chunks\/webpack-([\w-]+)\.js$/)?.[1]).find(Boolean);
+  if (runtime) return runtime;
+  let hash = 0;
+  for (const char of scripts.sort().join('\n')) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Installs public/sw.js so the app keeps working offline. Production only:
+ * a dev server rebuilds its chunks on every change.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    const register = async () => {
+      try {
+        // A new build changes the script URL, which installs a worker with a fresh cache.
+        const registration = await navigator.serviceWorker.register(`/sw.js?v=${buildVersion()}`);
+        // Only the current locale has been loaded; fetch the other ones too so
+        // switching language works offline.
+        await Promise.all([import('@/locales/en'), import('@/locales/ru')]);
+        // The newest worker gets the list, so the files land in the cache of this build.
+        const worker = registration.installing ?? registration.waiting ?? registration.active
+          ?? (await navigator.serviceWorker.ready).active;
+        worker?.postMessage({ type: 'cache-urls', urls: loadedResources() });
+      } catch (error) {
+        console.error('Service worker registration failed:', error);
+      }
+    };
+
+    if (document.readyState === 'complete') {
+      register();
+      return;
+    }
+    window.addEventListener('load', register, { once: true });
+    return () => window.removeEventListener('load', register);
+  }, []);
+
+  return null;
+}
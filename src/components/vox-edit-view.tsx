@@ -0,0 +1,178 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState, type PointerEvent } from 'react';
+import type { VoxModel } from '@/lib/vox-io';
+import {
+  MAX_PITCH,
+  MIN_PITCH,
+  fitCamera,
+  pickFace,
+  projectFaces,
+  visibleFaces,
+  type ProjectedFace,
+  type VoxCamera,
+  type VoxFace,
+} from '@/lib/vox-editing';
+
+interface VoxEditViewProps {
+  model: VoxModel;
+  // Called for a click (not a drag) on a voxel face.
+  onPick: (face: VoxFace) => void;
+}
+
+const VIEW_HEIGHT = 400;
+const ZOOM_STEP = 1.25;
+// Pointer travel (CSS px) after which a press turns the model instead of clicking.
+const DRAG_THRESHOLD = 4;
+const ORBIT_SPEED = 0.01;
+
+type Drag = { clientX: number, clientY: number, camera: VoxCamera, moved: boolean };
+
+/**
+ * 3D view of the model for editing. The viewer element cannot report what was
+ * clicked, so the voxel faces are drawn on a canvas here (back to front) and the
+ * face under the pointer is looked up in the same projection.
+ */
+export function VoxEditView({ model, onPick }: VoxEditViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [camera, setCamera] = useState<VoxCamera | null>(null);
+  const [hover, setHover] = useState<VoxFace | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setViewportWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Frame the model once the viewport is known or the model size changes; edits keep the camera.
+  const { x: sizeX, y: sizeY, z: sizeZ } = model.size;
+  useEffect(() => {
+    if (!viewportWidth) return;
+    setCamera(fitCamera({ x: sizeX, y: sizeY, z: sizeZ }, viewportWidth, VIEW_HEIGHT));
+  }, [viewportWidth, sizeX, sizeY, sizeZ]);
+
+  const faces = useMemo(() => visibleFaces(model), [model]);
+  const projected = useMemo<ProjectedFace[]>(
+    () => camera ? projectFaces(faces, model, camera) : [],
+    [faces, model, camera],
+  );
+
+  const paint = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !viewportWidth) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(viewportWidth * ratio) || canvas.height !== Math.round(VIEW_HEIGHT * ratio)) {
+      canvas.width = Math.round(viewportWidth * ratio);
+      canvas.height = Math.round(VIEW_HEIGHT * ratio);
+    }
+    ctx.setTransform(ratio, 0, 0, ratio, viewportWidth * ratio / 2, VIEW_HEIGHT * ratio / 2);
+    ctx.clearRect(-viewportWidth / 2, -VIEW_HEIGHT / 2, viewportWidth, VIEW_HEIGHT);
+
+    const outline = (points: number[]) => {
+      ctx.beginPath();
+      ctx.moveTo(points[0], points[1]);
+      for (let i = 2; i < 8; i += 2) ctx.lineTo(points[i], points[i + 1]);
+      ctx.closePath();
+    };
+
+    for (const { face, points, light } of projected) {
+      const color = model.palette[face.voxel.i] ?? { r: 255, g: 255, b: 255, a: 255 };
+      const fill = `rgb(${Math.round(color.r * light)}, ${Math.round(color.g * light)}, ${Math.round(color.b * light)})`;
+      outline(points);
+      ctx.fillStyle = fill;
+      ctx.fill();
+      // Stroking with the fill colour closes the hairline seams between faces.
+      ctx.strokeStyle = fill;
+      ctx.lineWidth = 0.5;
+      ctx.stroke();
+    }
+
+    if (hover) {
+      const hovered = projected.find(p => p.face === hover);
+      if (hovered) {
+        const primary = getComputedStyle(canvas).getPropertyValue('--primary').trim();
+        outline(hovered.points);
+        ctx.strokeStyle = `hsl(${primary})`;
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+    }
+  }, [viewportWidth, projected, model, hover]);
+
+  useEffect(() => {
+    paint();
+  }, [paint]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // React registers wheel listeners as passive, so page scrolling could not be prevented.
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      setCamera(current => current && { ...current, zoom: current.zoom * factor });
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // The face under the pointer, in the same coordinates as the projection.
+  const faceAt = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return pickFace(projected, event.clientX - rect.left - rect.width / 2, event.clientY - rect.top - rect.height / 2);
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (event.button !== 0 || !camera) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { clientX: event.clientX, clientY: event.clientY, camera, moved: false };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      setHover(faceAt(event));
+      return;
+    }
+    const dx = event.clientX - drag.clientX;
+    const dy = event.clientY - drag.clientY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    setHover(null);
+    setCamera({
+      ...drag.camera,
+      yaw: drag.camera.yaw + dx * ORBIT_SPEED,
+      pitch: Math.min(MAX_PITCH, Math.max(MIN_PITCH, drag.camera.pitch + dy * ORBIT_SPEED)),
+    });
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved) return;
+    const face = faceAt(event);
+    if (face) onPick(face);
+  };
+
+  return (
+    <div ref={containerRef} className="w-full overflow-hidden">
+      <canvas
+        ref={canvasRef}
+        className="block w-full touch-none cursor-crosshair"
+        style={{ height: VIEW_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { dragRef.current = null; }}
+        onPointerLeave={() => setHover(null)}
+      />
+    </div>
+  );
+}
@@ -15,8 +15,12 @@ import { VoxGeneratorText } from './vox-generator/vox-generator-text';
 import { VoxGeneratorPixelArt } from './vox-generator/vox-generator-pixelart';
 import { VoxGeneratorQr } from './vox-generator/vox-generator-qr';
 import { VoxGeneratorSign } from './vox-generator/vox-generator-sign';
+import { VoxGeneratorLathe } from './vox-generator/vox-generator-lathe';
+import { VoxGeneratorTerrain } from './vox-generator/vox-generator-terrain';
+import { VoxGeneratorSilhouette } from './vox-generator/vox-generator-silhouette';
+import { VoxGeneratorImport } from './vox-generator/vox-generator-import';
 
-type GeneratorMode = 'shape' | 'text' | 'qr' | 'pixelart' | 'sign';
+type GeneratorMode = 'shape' | 'lathe' | 'text' | 'qr' | 'pixelart' | 'sign' | 'terrain' | 'silhouette' | 'import';
 
 export function VoxGenerator() {
   const t = useI18n();
@@ -26,6 +30,8 @@ export function VoxGenerator() {
     switch (mode) {
       case 'shape':
         return <VoxGeneratorShape />;
+      case 'lathe':
+        return <VoxGeneratorLathe />;
       case 'text':
         return <VoxGeneratorText />;
       case 'pixelart':
@@ -34,6 +40,12 @@ export function VoxGenerator() {
         return <VoxGeneratorQr />;
       case 'sign':
         return <VoxGeneratorSign />;
+      case 'terrain':
+        return <VoxGeneratorTerrain />;
+      case 'silhouette':
+        return <VoxGeneratorSilhouette />;
+      case 'import':
+        return <VoxGeneratorImport />;
       default:
         return null;
     }
@@ -63,11 +75,15 @@ export function VoxGenerator() {
             </Dialog>
         </CardHeader>
         <CardContent className="space-y-6">
-            <RadioGroup value={mode} onValueChange={(v) => setMode(v as GeneratorMode)} className="grid grid-cols-3 lg:grid-cols-5 gap-1 pt-2 bg-muted/30 p-1 rounded-lg">
+            <RadioGroup value={mode} onValueChange={(v) => setMode(v as GeneratorMode)} className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-9 gap-1 pt-2 bg-muted/30 p-1 rounded-lg">
                 <RadioGroupItem value="shape" id="mode-shape" className="sr-only" />
                 <Label htmlFor="mode-shape" className={cn("flex-1 text-center py-2 px-4 rounded-md cursor-pointer", mode === 'shape' ? 'bg-primary text-primary-foreground' : 'hover:bg-accent/50')}>
                    {t('voxGenerator.modes.shape')}
                 </Label>
+                <RadioGroupItem value="lathe" id="mode-lathe" className="sr-only" />
+                <Label htmlFor="mode-lathe" className={cn("flex-1 text-center py-2 px-4 rounded-md cursor-pointer", mode === 'lathe' ? 'bg-primary text-primary-foreground' : 'hover:bg-accent/50')}>
+                   {t('voxGenerator.modes.lathe')}
+                </Label>
                 <RadioGroupItem value="text" id="mode-text" className="sr-only" />
                 <Label htmlFor="mode-text" className={cn("flex-1 text-center py-2 px-4 rounded-md cursor-pointer", mode === 'text' ? 'bg-primary text-primary-foreground' : 'hover:bg-accent/50')}>
                     {t('voxGenerator.modes.text')}
@@ -84,6 +100,18 @@ export function VoxGenerator() {
                 <Label htmlFor="mode-sign" className={cn("flex-1 text-center py-2 px-4 rounded-md cursor-pointer", mode === 'sign' ? 'bg-primary text-primary-foreground' : 'hover:bg-accent/50')}>
                     {t('voxGenerator.modes.sign')}
                 </Label>
+                <RadioGroupItem value="terrain" id="mode-terrain" className="sr-only" />
+                <Label htmlFor="mode-terrain" className={cn("flex-1 text-center py-2 px-4 rounded-md cursor-pointer", mode === 'terrain' ? 'bg-primary text-primary-foreground' : 'hover:bg-accent/50')}>
+                    {t('voxGenerator.modes.terrain')}
+                </Label>
+                <RadioGroupItem value="silhouette" id="mode-silhouette" className="sr-only" />
+                <Label htmlFor="mode-silhouette" className={cn("flex-1 text-center py-2 px-4 rounded-md cursor-pointer", mode === 'silhouette' ? 'bg-primary text-primary-foreground' : 'hover:bg-accent/50')}>
+                    {t('voxGenerator.modes.silhouette')}
+                </Label>
+                <RadioGroupItem value="import" id="mode-import" className="sr-only" />
+                <Label htmlFor="mode-import" className={cn("flex-1 text-center py-2 px-4 rounded-md cursor-pointer", mode === 'import' ? 'bg-primary text-primary-foreground' : 'hover:bg-accent/50')}>
+                    {t('voxGenerator.modes.import')}
+                </Label>
             </RadioGroup>
         </CardContent>
       </Card>
@@ -0,0 +1,41 @@
+'use client';
+
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useI18n } from '@/locales/client';
+
+interface VoxGenerateButtonProps {
+  onClick: () => void;
+  isPending: boolean;
+  // Worker progress from 0 to 1, null while no generation job runs.
+  progress: number | null;
+  onCancel: () => void;
+  // Defaults to the generate label.
+  label?: string;
+}
+
+export function VoxGenerateButton({ onClick, isPending, progress, onCancel, label }: VoxGenerateButtonProps) {
+  const t = useI18n();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Button onClick={onClick} disabled={isPending} className="w-full uppercase font-bold tracking-wider">
+          {isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {progress !== null ? t('voxGenerator.progress', { percent: Math.round(progress * 100) }) : t('common.generating')}
+            </>
+          ) : label ?? t('voxGenerator.button')}
+        </Button>
+        {progress !== null && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            {t('voxGenerator.cancel')}
+          </Button>
+        )}
+      </div>
+      {progress !== null && <Progress value={progress * 100} className="h-2" />}
+    </div>
+  );
+}
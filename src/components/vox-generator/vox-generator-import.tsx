@@ -0,0 +1,235 @@
+'use client';
+
+import { useState, useRef, DragEvent } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SchematicPreview } from '@/components/schematic-preview';
+import { useToast } from '@/hooks/use-toast';
+import { type SchematicOutput } from '@/lib/schematic-utils';
+import { useI18n } from '@/locales/client';
+import { Cuboid, UploadCloud } from 'lucide-react';
+import { Switch } from '../ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+import { VoxTransformControls } from './vox-transform-controls';
+import { VoxGenerateButton } from './vox-generate-button';
+import { useVoxWorker } from '@/hooks/use-vox-worker';
+import { IDENTITY_TRANSFORM, type VoxTransform } from '@/lib/vox-transform';
+import { importVox, type VoxImportStats } from '@/lib/vox-import';
+import { MAX_MESH_BLOCKS, meshFormatFromName, type MeshFill, type MeshFormat, type UpAxis } from '@/lib/mesh-voxelizer';
+
+export function VoxGeneratorImport() {
+  const t = useI18n();
+  const [voxFile, setVoxFile] = useState<{ name: string, data: Uint8Array, meshFormat: MeshFormat | null } | null>(null);
+  const [meshBlocks, setMeshBlocks] = useState([2]);
+  const [meshFill, setMeshFill] = useState<MeshFill>('solid');
+  const [upAxis, setUpAxis] = useState<UpAxis>('y');
+  const [trim, setTrim] = useState(false);
+  const [addAnchor, setAddAnchor] = useState(true);
+  const [transform, setTransform] = useState<VoxTransform>(IDENTITY_TRANSFORM);
+  const [stats, setStats] = useState<VoxImportStats | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [schematicOutput, setSchematicOutput] = useState<SchematicOutput | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const { toast } = useToast();
+  const { run: runVoxJob, cancel: cancelVoxJob, progress } = useVoxWorker();
+
+  const applyImport = async (file: NonNullable<typeof voxFile>, axis: UpAxis = upAxis) => {
+    setIsPending(true);
+    try {
+      let data = file.data;
+      // Meshes are voxelized in the worker first and then take the regular .vox import path.
+      if (file.meshFormat) {
+        const result = await runVoxJob({ kind: 'mesh', input: { data: file.data, format: file.meshFormat, blocks: meshBlocks[0], fill: meshFill, upAxis: axis } });
+        if (!result?.voxData) return;
+        data = result.voxData;
+      }
+      const { stats: importStats, ...result } = importVox(data, { transform, trim, anchor: addAnchor });
+      setSchematicOutput(result);
+      setStats(importStats);
+    } catch (error) {
+      toast({
+        title: t('voxGenerator.errors.invalidVoxFile'),
+        description: (error instanceof Error) ? error.message : String(error),
+        variant: "destructive",
+      });
+      setSchematicOutput(null);
+      setStats(null);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const processVoxFile = async (selectedFile: File | undefined) => {
+    if (!selectedFile) return;
+    const meshFormat = meshFormatFromName(selectedFile.name);
+    if (!meshFormat && !selectedFile.name.toLowerCase().endsWith('.vox')) {
+      toast({ title: t('voxGenerator.errors.invalidVoxFile'), description: t('voxGenerator.errors.invalidVoxFileDesc'), variant: 'destructive' });
+      return;
+    }
+
+    const file = { name: selectedFile.name, data: new Uint8Array(await selectedFile.arrayBuffer()), meshFormat };
+    // Blender's OBJ exporter writes Y-up, STL files are usually Z-up.
+    const axis: UpAxis = meshFormat === 'stl' ? 'z' : 'y';
+    setUpAxis(axis);
+    setVoxFile(file);
+    applyImport(file, axis);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    processVoxFile(event.target.files?.[0]);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragging(false);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragging(false);
+    processVoxFile(event.dataTransfer.files?.[0]);
+  };
+
+  const handleApply = () => {
+    if (!voxFile) {
+      toast({ title: t('voxGenerator.errors.noVoxFile'), description: t('voxGenerator.errors.invalidVoxFileDesc'), variant: "destructive" });
+      return;
+    }
+    applyImport(voxFile);
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <Card className="bg-card/70 border-primary/20 backdrop-blur-sm">
+        <CardContent className="space-y-6 pt-6">
+          <div className="space-y-2">
+            <Label htmlFor="vox-import-upload">{t('voxGenerator.import.fileLabel')}</Label>
+            <div
+              className={cn(
+                "mt-2 flex justify-center rounded-lg border border-dashed border-input px-6 py-10 cursor-pointer hover:border-primary transition-colors",
+                isDragging && "border-primary bg-primary/10"
+              )}
+              onClick={() => fileInputRef.current?.click()}
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+            >
+              <div className="text-center">
+                {voxFile ? (
+                  <>
+                    <Cuboid className="mx-auto h-12 w-12 text-primary" />
+                    <p className="mt-4 text-sm font-semibold">{voxFile.name}</p>
+                  </>
+                ) : (
+                  <>
+                    <UploadCloud className="mx-auto h-12 w-12 text-muted-foreground" />
+                    <div className="mt-4 flex text-sm leading-6 text-muted-foreground">
+                      <p className="pl-1">{t('voxGenerator.import.dropzone')}</p>
+                    </div>
+                    <p className="text-xs leading-5 text-muted-foreground">{t('voxGenerator.import.dropzoneHint')}</p>
+                  </>
+                )}
+                <Input
+                  ref={fileInputRef}
+                  id="vox-import-upload"
+                  type="file"
+                  className="sr-only"
+                  onChange={handleFileChange}
+                  accept=".vox,.obj,.stl"
+                />
+              </div>
+            </div>
+          </div>
+
+          {stats && (
+            <div className="grid grid-cols-3 gap-2 rounded-lg border border-primary/30 bg-primary/10 p-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">{t('voxGenerator.import.stats.size')}</p>
+                <p className="font-semibold">{stats.width}x{stats.height}x{stats.depth}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">{t('voxGenerator.import.stats.voxels')}</p>
+                <p className="font-semibold">{stats.totalVoxels.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">{t('voxGenerator.import.stats.colors')}</p>
+                <p className="font-semibold">{stats.colorCount}</p>
+              </div>
+            </div>
+          )}
+
+          {voxFile?.meshFormat && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="vox-import-mesh-blocks">{t('voxGenerator.import.mesh.size')}: {meshBlocks[0]} ({meshBlocks[0] * 16} {t('voxGenerator.import.mesh.voxels')})</Label>
+                <Slider
+                  id="vox-import-mesh-blocks"
+                  min={1} max={MAX_MESH_BLOCKS} step={1}
+                  value={meshBlocks}
+                  onValueChange={setMeshBlocks}
+                />
+                <p className="text-xs text-muted-foreground">{t('voxGenerator.import.mesh.sizeHint')}</p>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{t('voxGenerator.import.mesh.fill')}</Label>
+                  <RadioGroup value={meshFill} onValueChange={(v) => setMeshFill(v as MeshFill)} className="flex pt-2 space-x-4">
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="solid" id="vox-import-fill-solid" />
+                      <Label htmlFor="vox-import-fill-solid">{t('voxGenerator.import.mesh.solid')}</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="shell" id="vox-import-fill-shell" />
+                      <Label htmlFor="vox-import-fill-shell">{t('voxGenerator.import.mesh.shell')}</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('voxGenerator.import.mesh.upAxis')}</Label>
+                  <RadioGroup value={upAxis} onValueChange={(v) => setUpAxis(v as UpAxis)} className="flex pt-2 space-x-4">
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="y" id="vox-import-up-y" />
+                      <Label htmlFor="vox-import-up-y">Y</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="z" id="vox-import-up-z" />
+                      <Label htmlFor="vox-import-up-z">Z</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Switch id="vox-import-trim" checked={trim} onCheckedChange={setTrim} />
+            <Label htmlFor="vox-import-trim">{t('voxGenerator.import.trim')}</Label>
+          </div>
+          <div className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <Switch id="vox-import-anchor" checked={addAnchor} onCheckedChange={setAddAnchor} />
+              <Label htmlFor="vox-import-anchor">{t('voxGenerator.import.anchor')}</Label>
+            </div>
+            <p className="text-xs text-muted-foreground">{t('voxGenerator.import.anchorHint')}</p>
+          </div>
+          <VoxTransformControls value={transform} onChange={setTransform} idPrefix="import" />
+          <VoxGenerateButton onClick={handleApply} isPending={isPending} progress={progress} onCancel={cancelVoxJob} label={t('voxGenerator.import.apply')} />
+        </CardContent>
+      </Card>
+      <SchematicPreview schematicOutput={schematicOutput} loading={isPending} />
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SchematicPreview } from '@/components/schematic-preview';
+import { useToast } from '@/hooks/use-toast';
+import { type SchematicOutput, type VoxShape } from '@/lib/schematic-utils';
+import { useI18n } from '@/locales/client';
+import { useVoxWorker } from '@/hooks/use-vox-worker';
+import { Loader2, UploadCloud, Eraser } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '../ui/switch';
+import { VoxTransformControls } from './vox-transform-controls';
+import { VoxGenerateButton } from './vox-generate-button';
+import { IDENTITY_TRANSFORM, type VoxTransform } from '@/lib/vox-transform';
+
+const MAX_PROFILE_SIZE = 128;
+
+// Crops a worker result back to the uploaded image and trims empty rows/columns,
+// keeping column 0 as the axis of revolution.
+const cropProfile = (output: SchematicOutput) => {
+  const { width, height, pixels } = output;
+  const originalWidth = output.originalWidth ?? width;
+  const originalHeight = output.originalHeight ?? height;
+  const xOffset = Math.floor((width - originalWidth) / 2);
+  const yOffset = Math.floor((height - originalHeight) / 2);
+
+  let minY = originalHeight, maxY = -1, maxX = -1;
+  for (let y = 0; y < originalHeight; y++) {
+    for (let x = 0; x < originalWidth; x++) {
+      if (pixels[(y + yOffset) * width + (x + xOffset)]) {
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+        if (x > maxX) maxX = x;
+      }
+    }
+  }
+  if (maxY === -1) return null;
+
+  const profileWidth = maxX + 1;
+  const profileHeight = maxY - minY + 1;
+  const profile: boolean[] = [];
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = 0; x < profileWidth; x++) {
+      profile.push(!!pixels[(y + yOffset) * width + (x + xOffset)]);
+    }
+  }
+  return { profile, profileWidth, profileHeight };
+};
+
+export function VoxGeneratorLathe() {
+  const t = useI18n();
+  const [profileWidth, setProfileWidth] = useState(12);
+  const [profileHeight, setProfileHeight] = useState(24);
+  const [profile, setProfile] = useState<boolean[]>(() => Array(12 * 24).fill(false));
+  const [sizeInputs, setSizeInputs] = useState({ width: '12', height: '24' });
+  const [sweepAngle, setSweepAngle] = useState([360]);
+  const [isHollow, setIsHollow] = useState(false);
+  const [wallThickness, setWallThickness] = useState([1]);
+  const [transform, setTransform] = useState<VoxTransform>(IDENTITY_TRANSFORM);
+  const [threshold, setThreshold] = useState([128]);
+  const [imageWidth, setImageWidth] = useState('16');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const workerRef = useRef<Worker>();
+  const paintValueRef = useRef<boolean | null>(null);
+
+  const [schematicOutput, setSchematicOutput] = useState<SchematicOutput | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [isLoadingImage, setIsLoadingImage] = useState(false);
+  const { toast } = useToast();
+  const { run: runVoxJob, cancel: cancelVoxJob, progress } = useVoxWorker();
+
+  useEffect(() => {
+    workerRef.current = new Worker(new URL('../../lib/image.worker.ts', import.meta.url));
+
+    workerRef.current.onmessage = (event: MessageEvent<SchematicOutput | { error: string }>) => {
+      setIsLoadingImage(false);
+      if ('error' in event.data) {
+        toast({ title: t('imageConverter.errors.conversionFailed'), description: event.data.error, variant: "destructive" });
+        return;
+      }
+      const cropped = cropProfile(event.data);
+      if (!cropped) {
+        toast({ title: t('voxGenerator.errors.noProfile'), description: t('voxGenerator.errors.noProfileDesc'), variant: "destructive" });
+        return;
+      }
+      setProfile(cropped.profile);
+      setProfileWidth(cropped.profileWidth);
+      setProfileHeight(cropped.profileHeight);
+      setSizeInputs({ width: String(cropped.profileWidth), height: String(cropped.profileHeight) });
+    };
+
+    workerRef.current.onerror = () => {
+      toast({ title: t('imageConverter.errors.workerError'), description: t('imageConverter.errors.workerErrorDesc'), variant: "destructive" });
+      setIsLoadingImage(false);
+    };
+
+    return () => {
+      workerRef.current?.terminate();
+    };
+  }, [toast, t]);
+
+  useEffect(() => {
+    const stopPainting = () => { paintValueRef.current = null; };
+    window.addEventListener('pointerup', stopPainting);
+    return () => window.removeEventListener('pointerup', stopPainting);
+  }, []);
+
+  const resizeProfile = (newWidth: number, newHeight: number) => {
+    // Keep the drawing anchored to the axis (left) and the base (bottom).
+    const resized: boolean[] = Array(newWidth * newHeight).fill(false);
+    for (let y = 0; y < Math.min(profileHeight, newHeight); y++) {
+      for (let x = 0; x < Math.min(profileWidth, newWidth); x++) {
+        resized[(newHeight - 1 - y) * newWidth + x] = profile[(profileHeight - 1 - y) * profileWidth + x];
+      }
+    }
+    setProfile(resized);
+    setProfileWidth(newWidth);
+    setProfileHeight(newHeight);
+  };
+
+  const handleSizeChange = (field: 'width' | 'height', value: string) => {
+    setSizeInputs(prev => ({ ...prev, [field]: value }));
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed < 1 || parsed > MAX_PROFILE_SIZE) return;
+    if (field === 'width') {
+      resizeProfile(parsed, profileHeight);
+    } else {
+      resizeProfile(profileWidth, parsed);
+    }
+  };
+
+  const paintCell = (index: number, value: boolean) => {
+    setProfile(prev => {
+      if (prev[index] === value) return prev;
+      const next = [...prev];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = event.target.files?.[0];
+    event.target.value = '';
+    if (!selectedFile) return;
+    if (!selectedFile.type.startsWith('image/')) {
+      toast({ title: t('imageConverter.errors.invalidFileType'), description: t('imageConverter.errors.invalidFileTypeDesc'), variant: 'destructive' });
+      return;
+    }
+    const width = parseInt(imageWidth, 10);
+    if (isNaN(width) || width < 1 || width > MAX_PROFILE_SIZE) {
+      toast({ title: t('imageConverter.errors.invalidWidth'), description: t('imageConverter.errors.invalidWidthDesc'), variant: "destructive" });
+      return;
+    }
+    setIsLoadingImage(true);
+    workerRef.current?.postMessage({ file: selectedFile, threshold: threshold[0], outputWidth: width, mode: 'bw' });
+  };
+
+  const handleGenerateLathe = async () => {
+    if (!profile.some(Boolean)) {
+      toast({ title: t('voxGenerator.errors.noProfile'), description: t('voxGenerator.errors.noProfileDesc'), variant: "destructive" });
+      return;
+    }
+
+    const shapeParams: VoxShape = {
+      type: 'lathe',
+      profile,
+      profileWidth,
+      profileHeight,
+      sweepAngle: sweepAngle[0],
+      hollow: isHollow,
+      thickness: wallThickness[0],
+    };
+
+    setIsPending(true);
+    setSchematicOutput(null);
+    try {
+      const result = await runVoxJob({ kind: 'shape', shape: shapeParams, transform });
+      if (!result) return;
+      setSchematicOutput(result);
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: t('common.errors.generationFailed'),
+        description: (error instanceof Error) ? error.message : t('common.errors.serverError'),
+        variant: "destructive",
+      });
+      setSchematicOutput(null);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <Card className="bg-card/70 border-primary/20 backdrop-blur-sm">
+        <CardContent className="space-y-6 pt-6">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{t('voxGenerator.lathe.profileLabel')}</Label>
+              <Button variant="ghost" size="sm" onClick={() => setProfile(Array(profileWidth * profileHeight).fill(false))}>
+                <Eraser className="mr-2 h-4 w-4" /> {t('voxGenerator.lathe.clear')}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">{t('voxGenerator.lathe.profileHint')}</p>
+            <div className="w-full overflow-auto border rounded-lg p-1 bg-black/20 flex justify-center" style={{ maxHeight: '400px' }}>
+              <div
+                className="grid border-l-2 border-primary touch-none select-none"
+                style={{
+                  width: `${profileWidth * 0.75}rem`,
+                  gridTemplateColumns: `repeat(${profileWidth}, minmax(0, 1fr))`,
+                  aspectRatio: `${profileWidth} / ${profileHeight}`,
+                }}
+                onPointerLeave={() => { paintValueRef.current = null; }}
+              >
+                {profile.map((filled, index) => (
+                  <div
+                    key={index}
+                    className="w-full h-full border-r border-b border-foreground/10 cursor-crosshair"
+                    style={{ backgroundColor: filled ? 'hsl(var(--foreground))' : 'transparent' }}
+                    onPointerDown={(e) => {
+                      e.preventDefault();
+                      paintValueRef.current = !filled;
+                      paintCell(index, !filled);
+                    }}
+                    onPointerEnter={() => {
+                      if (paintValueRef.current !== null) paintCell(index, paintValueRef.current);
+                    }}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="latheProfileWidth">{t('voxGenerator.dims.radius')} (voxels)</Label>
+              <Input id="latheProfileWidth" type="number" value={sizeInputs.width} onChange={e => handleSizeChange('width', e.target.value)} placeholder="e.g. 12" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="latheProfileHeight">{t('voxGenerator.dims.height')} (voxels)</Label>
+              <Input id="latheProfileHeight" type="number" value={sizeInputs.height} onChange={e => handleSizeChange('height', e.target.value)} placeholder="e.g. 24" />
+            </div>
+          </div>
+
+          <div className="space-y-4 rounded-lg border border-dashed border-input p-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="latheImageWidth">{t('imageConverter.widthLabel')}</Label>
+                <Input id="latheImageWidth" type="number" value={imageWidth} onChange={e => setImageWidth(e.target.value)} placeholder="e.g. 16" />
+              </div>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isLoadingImage}>
+                {isLoadingImage ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UploadCloud className="mr-2 h-4 w-4" />}
+                {t('voxGenerator.lathe.uploadProfile')}
+              </Button>
+              <Input
+                ref={fileInputRef}
+                id="lathe-image-upload"
+                type="file"
+                className="sr-only"
+                onChange={handleFileChange}
+                accept="image/png, image/jpeg, image/gif"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lathe-threshold">{t('imageConverter.thresholdLabel')}: {threshold[0]}</Label>
+              <Slider id="lathe-threshold" min={0} max={255} step={1} value={threshold} onValueChange={setThreshold} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="lathe-sweep">{t('voxGenerator.lathe.sweepAngle')}: {sweepAngle[0]}°</Label>
+            <Slider id="lathe-sweep" min={15} max={360} step={15} value={sweepAngle} onValueChange={setSweepAngle} />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch id="lathe-hollow" checked={isHollow} onCheckedChange={setIsHollow} />
+            <Label htmlFor="lathe-hollow">{t('voxGenerator.lathe.hollow')}</Label>
+          </div>
+          {isHollow && (
+            <div className="space-y-2 pl-2 border-l-2 border-primary/20 ml-3">
+              <Label htmlFor="lathe-wall-thickness">{t('voxGenerator.lathe.wallThickness')}: {wallThickness[0]}</Label>
+              <Slider
+                id="lathe-wall-thickness"
+                min={1}
+                max={Math.max(1, Math.floor(profileWidth / 2))}
+                step={1}
+                value={wallThickness}
+                onValueChange={setWallThickness}
+              />
+            </div>
+          )}
+
+          <VoxTransformControls value={transform} onChange={setTransform} idPrefix="lathe" />
+          <VoxGenerateButton onClick={handleGenerateLathe} isPending={isPending} progress={progress} onCancel={cancelVoxJob} />
+        </CardContent>
+      </Card>
+      <SchematicPreview schematicOutput={schematicOutput} loading={isPending} />
+    </div>
+  );
+}
@@ -12,13 +12,27 @@ import { SchematicPreview } from '@/components/schematic-preview';
 import { useToast } from '@/hooks/use-toast';
 import { type SchematicOutput, type TextOrientation } from '@/lib/schematic-utils';
 import { useI18n } from '@/locales/client';
-import { generatePixelArtToVoxFlow, type PixelArtToVoxInput, type PixelArtToVoxOutput } from '@/ai/flows/pixelart-to-vox-flow';
-import { Loader2, UploadCloud } from 'lucide-react';
+import type { PixelArtToVoxInput } from '@/lib/pixelart-to-vox';
+import { useVoxWorker } from '@/hooks/use-vox-worker';
+import { Loader2, Pencil, UploadCloud, X } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '../ui/switch';
 import { cn } from '@/lib/utils';
+import { VoxTransformControls } from './vox-transform-controls';
+import { VoxGenerateButton } from './vox-generate-button';
+import { IDENTITY_TRANSFORM, type VoxTransform } from '@/lib/vox-transform';
+import { PixelEditor } from '@/components/pixel-editor';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
 
-type PixelArtVoxMode = 'extrude' | 'engrave';
+type PixelArtVoxMode = 'extrude' | 'engrave' | 'relief';
+type PixelArtColorMode = 'bw' | 'color';
 
 export function VoxGeneratorPixelArt() {
   const t = useI18n();
@@ -27,19 +41,29 @@ export function VoxGeneratorPixelArt() {
   const [paThreshold, setPaThreshold] = useState([128]);
   const [paOutputWidth, setPaOutputWidth] = useState('64');
   const [paInvert, setPaInvert] = useState(false);
+  const [paColorMode, setPaColorMode] = useState<PixelArtColorMode>('bw');
   const [paVoxMode, setPaVoxMode] = useState<PixelArtVoxMode>('extrude');
   const [paExtrudeDepth, setPaExtrudeDepth] = useState([5]);
   const [paStickerMode, setPaStickerMode] = useState(true);
   const [paEngraveBgDepth, setPaEngraveBgDepth] = useState([16]);
   const [paEngraveDepth, setPaEngraveDepth] = useState([3]);
+  const [paReliefDepth, setPaReliefDepth] = useState([1, 16]);
+  const [paReliefInvert, setPaReliefInvert] = useState(false);
+  const [paReliefSmoothing, setPaReliefSmoothing] = useState([1]);
   const [isDragging, setIsDragging] = useState(false);
   const paFileInputRef = useRef<HTMLInputElement>(null);
   const paWorkerRef = useRef<Worker>();
   const [paOrientation, setPaOrientation] = useState<TextOrientation>('horizontal');
+  const [transform, setTransform] = useState<VoxTransform>(IDENTITY_TRANSFORM);
+  // The converted image after manual fixes; used instead of a fresh conversion when set.
+  const [editedPixels, setEditedPixels] = useState<SchematicOutput | null>(null);
+  const [editorDraft, setEditorDraft] = useState<SchematicOutput | null>(null);
+  const [isConverting, setIsConverting] = useState(false);
 
   const [schematicOutput, setSchematicOutput] = useState<any | null>(null);
   const [isPending, setIsPending] = useState(false);
   const { toast } = useToast();
+  const { run: runVoxJob, cancel: cancelVoxJob, progress } = useVoxWorker();
 
   useEffect(() => {
     return () => {
@@ -47,6 +71,11 @@ export function VoxGeneratorPixelArt() {
     };
   }, [paPreviewUrl]);
 
+  // Edits only apply to the conversion they were made on.
+  useEffect(() => {
+    setEditedPixels(null);
+  }, [paFile, paThreshold, paOutputWidth, paInvert, paColorMode]);
+
   useEffect(() => {
     paWorkerRef.current = new Worker(new URL('../../lib/image.worker.ts', import.meta.url));
     
@@ -58,6 +87,7 @@ export function VoxGeneratorPixelArt() {
        });
        setSchematicOutput(null);
        setIsPending(false);
+       setIsConverting(false);
     }
 
     return () => {
@@ -74,6 +104,63 @@ export function VoxGeneratorPixelArt() {
     return parsed;
   }
 
+  const convertImage = (width: number, onResult: (result: SchematicOutput) => void, onDone: () => void) => {
+    paWorkerRef.current!.onmessage = (event: MessageEvent<SchematicOutput | { error: string }>) => {
+        if ('error' in event.data) {
+            toast({
+                title: t('imageConverter.errors.conversionFailed'),
+                description: event.data.error,
+                variant: "destructive",
+            });
+            onDone();
+            return;
+        }
+        let pixelData = event.data.pixels;
+        if (paInvert && paColorMode === 'bw' && paVoxMode !== 'relief') {
+            pixelData = pixelData.map(p => !p);
+        }
+        onResult({ ...event.data, pixels: pixelData });
+    };
+
+    paWorkerRef.current?.postMessage({ file: paFile, threshold: paThreshold[0], outputWidth: width, mode: paVoxMode === 'relief' ? 'grayscale' : paColorMode });
+  }
+
+  const runFlow = async (source: SchematicOutput) => {
+    const input: PixelArtToVoxInput = {
+        pixels: source.pixels,
+        width: source.width,
+        height: source.height,
+        colorMode: paColorMode,
+        palette: paColorMode === 'color' ? source.palette : undefined,
+        mode: paVoxMode,
+        extrudeDepth: paExtrudeDepth[0],
+        engraveBackgroundDepth: paEngraveBgDepth[0],
+        engraveDepth: paEngraveDepth[0],
+        reliefMinDepth: paReliefDepth[0],
+        reliefMaxDepth: paReliefDepth[1],
+        reliefInvert: paReliefInvert,
+        reliefSmoothing: paReliefSmoothing[0],
+        stickerMode: paStickerMode,
+        orientation: paOrientation,
+        transform,
+    };
+
+    try {
+      const result = await runVoxJob({ kind: 'pixelart', input });
+      if (!result) return;
+      setSchematicOutput(result);
+    } catch (flowError) {
+       toast({
+        title: t('common.errors.generationFailed'),
+        description: (flowError instanceof Error) ? flowError.message : t('common.errors.serverError'),
+        variant: "destructive",
+      });
+      setSchematicOutput(null);
+    } finally {
+      setIsPending(false);
+    }
+  }
+
   const handleGeneratePixelArt = async () => {
     if (!paFile) {
         toast({ title: t('imageConverter.errors.noImage'), description: t('imageConverter.errors.noImageDesc'), variant: "destructive" });
@@ -85,51 +172,33 @@ export function VoxGeneratorPixelArt() {
     setIsPending(true);
     setSchematicOutput(null);
 
-    paWorkerRef.current!.onmessage = async (event: MessageEvent<SchematicOutput | { error: string }>) => {
-        if ('error' in event.data) {
-            toast({
-                title: t('imageConverter.errors.conversionFailed'),
-                description: event.data.error,
-                variant: "destructive",
-            });
-            setSchematicOutput(null);
-            setIsPending(false);
-        } else {
-            let pixelData = event.data.pixels;
-            if (paInvert) {
-                pixelData = pixelData.map(p => !p);
-            }
-            
-            const input: PixelArtToVoxInput = {
-                pixels: pixelData as boolean[],
-                width: event.data.width,
-                height: event.data.height,
-                mode: paVoxMode,
-                extrudeDepth: paExtrudeDepth[0],
-                engraveBackgroundDepth: paEngraveBgDepth[0],
-                engraveDepth: paEngraveDepth[0],
-                stickerMode: paStickerMode,
-                orientation: paOrientation,
-            };
+    if (editedPixels && paVoxMode !== 'relief') {
+        await runFlow(editedPixels);
+        return;
+    }
+    convertImage(width, runFlow, () => {
+        setSchematicOutput(null);
+        setIsPending(false);
+    });
+  }
 
-            try {
-              const result: PixelArtToVoxOutput = await generatePixelArtToVoxFlow(input);
-              const voxDataBytes = Buffer.from(result.voxData, 'base64');
-              setSchematicOutput({ ...result, voxData: voxDataBytes, voxSize: (result as any).voxSize });
-            } catch (flowError) {
-               toast({
-                title: t('common.errors.generationFailed'),
-                description: (flowError instanceof Error) ? flowError.message : t('common.errors.serverError'),
-                variant: "destructive",
-              });
-              setSchematicOutput(null);
-            } finally {
-              setIsPending(false);
-            }
-        }
-    };
-    
-    paWorkerRef.current?.postMessage({ file: paFile, threshold: paThreshold[0], outputWidth: width, mode: 'bw' });
+  const handleEditPixels = () => {
+    if (!paFile) {
+        toast({ title: t('imageConverter.errors.noImage'), description: t('imageConverter.errors.noImageDesc'), variant: "destructive" });
+        return;
+    }
+    if (editedPixels) {
+        setEditorDraft(editedPixels);
+        return;
+    }
+    const width = validateAndParse(paOutputWidth, t('imageConverter.widthLabel'));
+    if (width === null) return;
+
+    setIsConverting(true);
+    convertImage(width, (result) => {
+        setEditorDraft(result);
+        setIsConverting(false);
+    }, () => setIsConverting(false));
   }
 
   const handlePaFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -234,22 +303,43 @@ export function VoxGeneratorPixelArt() {
                     placeholder="e.g., 64"
                     />
                 </div>
-                <div className="flex items-center space-x-2 self-end pb-2">
-                  <Switch id="pa-invert" checked={paInvert} onCheckedChange={setPaInvert} />
-                  <Label htmlFor="pa-invert">{t('voxGenerator.pixelart.invert')}</Label>
+                {paVoxMode !== 'relief' && (
+                <div className="space-y-2">
+                  <Label>{t('imageConverter.modeLabel')}</Label>
+                  <RadioGroup value={paColorMode} onValueChange={(v) => setPaColorMode(v as PixelArtColorMode)} className="flex pt-2 space-x-4">
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="bw" id="pa-color-mode-bw" />
+                      <Label htmlFor="pa-color-mode-bw">{t('imageConverter.modes.bw')}</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="color" id="pa-color-mode-color" />
+                      <Label htmlFor="pa-color-mode-color">{t('imageConverter.modes.color')}</Label>
+                    </div>
+                  </RadioGroup>
                 </div>
+                )}
              </div>
-             <div className="space-y-2">
-              <Label htmlFor="pa-threshold">{t('imageConverter.thresholdLabel')}: {paThreshold[0]}</Label>
-              <Slider
-                id="pa-threshold"
-                min={0}
-                max={255}
-                step={1}
-                value={paThreshold}
-                onValueChange={setPaThreshold}
-              />
-            </div>
+             {paVoxMode === 'relief' ? null : paColorMode === 'bw' ? (
+               <>
+                 <div className="flex items-center space-x-2">
+                   <Switch id="pa-invert" checked={paInvert} onCheckedChange={setPaInvert} />
+                   <Label htmlFor="pa-invert">{t('voxGenerator.pixelart.invert')}</Label>
+                 </div>
+                 <div className="space-y-2">
+                  <Label htmlFor="pa-threshold">{t('imageConverter.thresholdLabel')}: {paThreshold[0]}</Label>
+                  <Slider
+                    id="pa-threshold"
+                    min={0}
+                    max={255}
+                    step={1}
+                    value={paThreshold}
+                    onValueChange={setPaThreshold}
+                  />
+                </div>
+               </>
+             ) : (
+               <p className="text-xs text-muted-foreground">{t('voxGenerator.pixelart.colorHint')}</p>
+             )}
 
             <div className="space-y-2">
                 <Label>{t('voxGenerator.text.orientation.label')}</Label>
@@ -288,6 +378,10 @@ export function VoxGeneratorPixelArt() {
                     <RadioGroupItem value="engrave" id="pa-mode-engrave" />
                     <Label htmlFor="pa-mode-engrave">{t('voxGenerator.text.modes.engrave')}</Label>
                 </div>
+                <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="relief" id="pa-mode-relief" />
+                    <Label htmlFor="pa-mode-relief">{t('voxGenerator.pixelart.relief')}</Label>
+                </div>
             </RadioGroup>
           </div>
           
@@ -330,17 +424,78 @@ export function VoxGeneratorPixelArt() {
                 </div>
             </div>
           )}
-          <Button onClick={handleGeneratePixelArt} disabled={isPending} className="w-full uppercase font-bold tracking-wider">
-            {isPending ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                {t('common.generating')}
-              </>
-            ) : t('voxGenerator.button')}
-          </Button>
+
+          {paVoxMode === 'relief' && (
+            <div className="space-y-4">
+                <p className="text-xs text-muted-foreground">{t('voxGenerator.pixelart.reliefHint')}</p>
+                <div className="space-y-2">
+                    <Label htmlFor="pa-relief-depth">{t('voxGenerator.pixelart.reliefDepth')}: {paReliefDepth[0]}-{paReliefDepth[1]}px</Label>
+                    <Slider
+                        id="pa-relief-depth"
+                        min={1} max={32} step={1}
+                        value={paReliefDepth}
+                        onValueChange={setPaReliefDepth}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="pa-relief-smoothing">{t('voxGenerator.pixelart.reliefSmoothing')}: {paReliefSmoothing[0]}</Label>
+                    <Slider
+                        id="pa-relief-smoothing"
+                        min={0} max={4} step={1}
+                        value={paReliefSmoothing}
+                        onValueChange={setPaReliefSmoothing}
+                    />
+                </div>
+                <div className="flex items-center space-x-2">
+                    <Switch id="pa-relief-invert" checked={paReliefInvert} onCheckedChange={setPaReliefInvert} />
+                    <Label htmlFor="pa-relief-invert">{t('voxGenerator.pixelart.reliefInvert')}</Label>
+                </div>
+            </div>
+          )}
+          {paVoxMode !== 'relief' && (
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Button type="button" variant="outline" onClick={handleEditPixels} disabled={isConverting || isPending} className="flex-1">
+                  {isConverting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Pencil className="mr-2 h-4 w-4" />}
+                  {t('voxGenerator.pixelart.editPixels')}
+                </Button>
+                {editedPixels && (
+                  <Button type="button" variant="ghost" size="icon" title={t('voxGenerator.pixelart.discardEdits')} onClick={() => setEditedPixels(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {editedPixels ? t('voxGenerator.pixelart.editedHint') : t('voxGenerator.pixelart.editHint')}
+              </p>
+            </div>
+          )}
+          <VoxTransformControls value={transform} onChange={setTransform} idPrefix="pa" />
+          <VoxGenerateButton onClick={handleGeneratePixelArt} isPending={isPending} progress={progress} onCancel={cancelVoxJob} />
         </CardContent>
       </Card>
       <SchematicPreview schematicOutput={schematicOutput} loading={isPending} />
+      <Dialog open={!!editorDraft} onOpenChange={(open) => !open && setEditorDraft(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{t('voxGenerator.pixelart.editTitle')}</DialogTitle>
+            <DialogDescription>{t('voxGenerator.pixelart.editDescription')}</DialogDescription>
+          </DialogHeader>
+          {editorDraft && (
+            <PixelEditor
+              pixels={editorDraft.pixels}
+              width={editorDraft.width}
+              height={editorDraft.height}
+              palette={paColorMode === 'color' ? editorDraft.palette : undefined}
+              onChange={(pixels) => setEditorDraft({ ...editorDraft, pixels })}
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorDraft(null)}>{t('voxGenerator.pixelart.cancelEdits')}</Button>
+            <Button onClick={() => { setEditedPixels(editorDraft); setEditorDraft(null); }}>{t('voxGenerator.pixelart.saveEdits')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
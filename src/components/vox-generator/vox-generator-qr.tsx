@@ -10,11 +10,13 @@ import { SchematicPreview } from '@/components/schematic-preview';
 import { useToast } from '@/hooks/use-toast';
 import { type VoxShape } from '@/lib/schematic-utils';
 import { useI18n } from '@/locales/client';
-import { generateVoxFlow, type VoxOutput } from '@/ai/flows/vox-flow';
-import { Loader2 } from 'lucide-react';
+import { useVoxWorker } from '@/hooks/use-vox-worker';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '../ui/switch';
 import QRCode from 'qrcode';
+import { VoxTransformControls } from './vox-transform-controls';
+import { VoxGenerateButton } from './vox-generate-button';
+import { IDENTITY_TRANSFORM, type VoxTransform } from '@/lib/vox-transform';
 
 export function VoxGeneratorQr() {
   const t = useI18n();
@@ -23,10 +25,12 @@ export function VoxGeneratorQr() {
   const [withBackdrop, setWithBackdrop] = useState(false);
   const [backdropDepth, setBackdropDepth] = useState([4]);
   const [qrPreview, setQrPreview] = useState<string | null>(null);
+  const [transform, setTransform] = useState<VoxTransform>(IDENTITY_TRANSFORM);
 
   const [schematicOutput, setSchematicOutput] = useState<any | null>(null);
   const [isPending, setIsPending] = useState(false);
   const { toast } = useToast();
+  const { run: runVoxJob, cancel: cancelVoxJob, progress } = useVoxWorker();
   
   useEffect(() => {
     if (qrUrl) {
@@ -75,9 +79,9 @@ export function VoxGeneratorQr() {
           backdropDepth: withBackdrop ? backdropDepth[0] : 0,
       };
 
-      const result = await generateVoxFlow(shapeParams);
-      const voxDataBytes = Buffer.from(result.voxData, 'base64');
-      setSchematicOutput({ ...result, voxData: voxDataBytes, voxSize: (result as any).voxSize });
+      const result = await runVoxJob({ kind: 'shape', shape: shapeParams, transform });
+      if (!result) return;
+      setSchematicOutput(result);
 
     } catch (error) {
        console.error(error);
@@ -131,14 +135,8 @@ export function VoxGeneratorQr() {
                    </div>
                 )}
             </div>
-          <Button onClick={handleGenerateQr} disabled={isPending} className="w-full uppercase font-bold tracking-wider">
-            {isPending ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                {t('common.generating')}
-              </>
-            ) : t('voxGenerator.button')}
-          </Button>
+          <VoxTransformControls value={transform} onChange={setTransform} idPrefix="qr" />
+          <VoxGenerateButton onClick={handleGenerateQr} isPending={isPending} progress={progress} onCancel={cancelVoxJob} />
         </CardContent>
       </Card>
       <SchematicPreview schematicOutput={schematicOutput} loading={isPending} />
@@ -8,11 +8,16 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { SchematicPreview } from '@/components/schematic-preview';
 import { useToast } from '@/hooks/use-toast';
+import { type SchematicOutput } from '@/lib/schematic-utils';
 import { useI18n } from '@/locales/client';
-import { generateSignToVoxFlow, type SignToVoxInput, type SignToVoxOutput } from '@/ai/flows/sign-to-vox-flow';
-import { Loader2, Upload, ExternalLink } from 'lucide-react';
+import type { SignToVoxInput } from '@/lib/sign-to-vox';
+import { useVoxWorker } from '@/hooks/use-vox-worker';
+import { Upload, ExternalLink } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '../ui/switch';
+import { VoxTransformControls } from './vox-transform-controls';
+import { VoxGenerateButton } from './vox-generate-button';
+import { IDENTITY_TRANSFORM, type VoxTransform } from '@/lib/vox-transform';
 
 export function VoxGeneratorSign() {
   const t = useI18n();
@@ -28,10 +33,12 @@ export function VoxGeneratorSign() {
   const [textOffsetY, setTextOffsetY] = useState(0);
   const [signFrame, setSignFrame] = useState(true);
   const [signWithIcon, setSignWithIcon] = useState(true);
+  const [transform, setTransform] = useState<VoxTransform>(IDENTITY_TRANSFORM);
 
-  const [schematicOutput, setSchematicOutput] = useState<any | null>(null);
+  const [schematicOutput, setSchematicOutput] = useState<SchematicOutput | null>(null);
   const [isPending, setIsPending] = useState(false);
   const { toast } = useToast();
+  const { run: runVoxJob, cancel: cancelVoxJob, progress } = useVoxWorker();
 
   useEffect(() => {
     return () => {
@@ -112,11 +119,12 @@ export function VoxGeneratorSign() {
             signIconOffsetY: signIconOffsetY,
             textOffsetY: textOffsetY,
             signWithIcon: signWithIcon,
+            transform,
         };
 
-        const result: SignToVoxOutput = await generateSignToVoxFlow(input);
-        const voxDataBytes = Buffer.from(result.voxData, 'base64');
-        setSchematicOutput({ ...result, voxData: voxDataBytes, voxSize: result.voxSize });
+        const result = await runVoxJob({ kind: 'sign', input });
+        if (!result) return;
+        setSchematicOutput(result);
     } catch (error) {
         console.error("Sign generation failed:", error);
         toast({
@@ -194,14 +202,8 @@ export function VoxGeneratorSign() {
               <Label htmlFor="text-offset-y">{t('voxGenerator.sign.textOffsetY')}: {textOffsetY}px</Label>
               <Slider id="text-offset-y" min={0} max={maxTextOffset} step={1} value={[textOffsetY]} onValueChange={(v) => setTextOffsetY(v[0])} />
             </div>
-          <Button onClick={handleGenerateSign} disabled={isPending} className="w-full uppercase font-bold tracking-wider">
-            {isPending ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                {t('common.generating')}
-              </>
-            ) : t('voxGenerator.button')}
-          </Button>
+          <VoxTransformControls value={transform} onChange={setTransform} idPrefix="sign" />
+          <VoxGenerateButton onClick={handleGenerateSign} isPending={isPending} progress={progress} onCancel={cancelVoxJob} />
         </CardContent>
       </Card>
       <SchematicPreview schematicOutput={schematicOutput} loading={isPending} />
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useRef, useEffect, DragEvent } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SchematicPreview } from '@/components/schematic-preview';
+import { useToast } from '@/hooks/use-toast';
+import { type SchematicOutput } from '@/lib/schematic-utils';
+import { useI18n } from '@/locales/client';
+import type { SilhouetteToVoxInput } from '@/lib/silhouette-to-vox';
+import { useVoxWorker } from '@/hooks/use-vox-worker';
+import { UploadCloud, X } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '../ui/switch';
+import { cn } from '@/lib/utils';
+import { VoxTransformControls } from './vox-transform-controls';
+import { VoxGenerateButton } from './vox-generate-button';
+import { IDENTITY_TRANSFORM, type VoxTransform } from '@/lib/vox-transform';
+
+type SilhouetteView = 'front' | 'side' | 'top';
+type ViewFile = { file: File, previewUrl: string };
+
+const VIEWS: SilhouetteView[] = ['front', 'side', 'top'];
+
+interface SilhouetteDropzoneProps {
+  view: SilhouetteView;
+  value: ViewFile | undefined;
+  onSelect: (file: File | undefined) => void;
+  onClear: () => void;
+}
+
+function SilhouetteDropzone({ view, value, onSelect, onClear }: SilhouetteDropzoneProps) {
+  const t = useI18n();
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragging(false);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragging(false);
+    onSelect(event.dataTransfer.files?.[0]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`silhouette-${view}`}>{t(`voxGenerator.silhouette.views.${view}`)}</Label>
+        {value && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClear}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <div
+        className={cn(
+          "flex h-32 items-center justify-center rounded-lg border border-dashed border-input p-2 cursor-pointer hover:border-primary transition-colors",
+          isDragging && "border-primary bg-primary/10"
+        )}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {value ? (
+          <Image
+            src={value.previewUrl}
+            alt={t(`voxGenerator.silhouette.views.${view}`)}
+            width={120}
+            height={120}
+            className="h-full w-auto rounded-md object-contain"
+          />
+        ) : (
+          <UploadCloud className="h-8 w-8 text-muted-foreground" />
+        )}
+        <Input
+          ref={inputRef}
+          id={`silhouette-${view}`}
+          type="file"
+          className="sr-only"
+          onChange={(e) => onSelect(e.target.files?.[0])}
+          accept="image/png, image/jpeg, image/gif"
+        />
+      </div>
+    </div>
+  );
+}
+
+export function VoxGeneratorSilhouette() {
+  const t = useI18n();
+  const [files, setFiles] = useState<Partial<Record<SilhouetteView, ViewFile>>>({});
+  const [threshold, setThreshold] = useState([128]);
+  const [outputWidth, setOutputWidth] = useState('48');
+  const [invert, setInvert] = useState(false);
+  const workerRef = useRef<Worker>();
+  const [transform, setTransform] = useState<VoxTransform>(IDENTITY_TRANSFORM);
+
+  const [schematicOutput, setSchematicOutput] = useState<SchematicOutput | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const { toast } = useToast();
+  const { run: runVoxJob, cancel: cancelVoxJob, progress } = useVoxWorker();
+
+  useEffect(() => {
+    workerRef.current = new Worker(new URL('../../lib/image.worker.ts', import.meta.url));
+
+    workerRef.current.onerror = () => {
+       toast({
+         title: t('imageConverter.errors.workerError'),
+         description: t('imageConverter.errors.workerErrorDesc'),
+         variant: "destructive",
+       });
+       setSchematicOutput(null);
+       setIsPending(false);
+    }
+
+    return () => {
+      workerRef.current?.terminate();
+    };
+  }, [toast, t]);
+
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  useEffect(() => {
+    return () => {
+      Object.values(filesRef.current).forEach(view => view && URL.revokeObjectURL(view.previewUrl));
+    };
+  }, []);
+
+  const selectFile = (view: SilhouetteView, file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: t('imageConverter.errors.invalidFileType'),
+        description: t('imageConverter.errors.invalidFileTypeDesc'),
+        variant: 'destructive',
+      });
+      return;
+    }
+    clearFile(view);
+    setFiles(current => ({ ...current, [view]: { file, previewUrl: URL.createObjectURL(file) } }));
+    setSchematicOutput(null);
+  };
+
+  const clearFile = (view: SilhouetteView) => {
+    setFiles(current => {
+      const existing = current[view];
+      if (existing) URL.revokeObjectURL(existing.previewUrl);
+      const { [view]: _removed, ...rest } = current;
+      return rest;
+    });
+  };
+
+  // Runs one image through the worker's B&W threshold pipeline.
+  const toSilhouette = (file: File, width: number) => new Promise<SilhouetteToVoxInput['front']>((resolve, reject) => {
+    workerRef.current!.onmessage = (event: MessageEvent<SchematicOutput | { error: string }>) => {
+      if ('error' in event.data) {
+        reject(new Error(event.data.error));
+        return;
+      }
+      const { pixels, width: resultWidth, height: resultHeight } = event.data;
+      resolve({
+        pixels: pixels.map(p => invert ? !p : !!p),
+        width: resultWidth,
+        height: resultHeight,
+      });
+    };
+    workerRef.current!.postMessage({ file, threshold: threshold[0], outputWidth: width, mode: 'bw' });
+  });
+
+  const handleGenerate = async () => {
+    if (!files.front || !files.side) {
+        toast({ title: t('voxGenerator.errors.noSilhouettes'), description: t('voxGenerator.errors.noSilhouettesDesc'), variant: "destructive" });
+        return;
+    }
+    const width = parseInt(outputWidth, 10);
+    if (isNaN(width) || width < 1) {
+        toast({ title: t('imageConverter.errors.invalidWidth'), description: t('imageConverter.errors.invalidWidthDesc'), variant: "destructive" });
+        return;
+    }
+
+    setIsPending(true);
+    setSchematicOutput(null);
+
+    try {
+      const front = await toSilhouette(files.front.file, width);
+      const side = await toSilhouette(files.side.file, width);
+      const top = files.top ? await toSilhouette(files.top.file, width) : undefined;
+
+      const result = await runVoxJob({ kind: 'silhouette', input: { front, side, top, transform } });
+      if (!result) return;
+      setSchematicOutput(result);
+    } catch (error) {
+      toast({
+        title: t('common.errors.generationFailed'),
+        description: (error instanceof Error) ? error.message : t('common.errors.serverError'),
+        variant: "destructive",
+      });
+      setSchematicOutput(null);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <Card className="bg-card/70 border-primary/20 backdrop-blur-sm">
+        <CardContent className="space-y-6 pt-6">
+            <p className="text-sm text-muted-foreground">{t('voxGenerator.silhouette.hint')}</p>
+            <div className="grid grid-cols-3 gap-4">
+              {VIEWS.map(view => (
+                <SilhouetteDropzone
+                  key={view}
+                  view={view}
+                  value={files[view]}
+                  onSelect={(file) => selectFile(view, file)}
+                  onClear={() => clearFile(view)}
+                />
+              ))}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <Label htmlFor="silhouette-width">{t('imageConverter.widthLabel')}</Label>
+                    <Input
+                      id="silhouette-width"
+                      type="number"
+                      value={outputWidth}
+                      onChange={(e) => setOutputWidth(e.target.value)}
+                      placeholder="e.g., 48"
+                    />
+                </div>
+                <div className="flex items-center space-x-2 self-end pb-2">
+                  <Switch id="silhouette-invert" checked={invert} onCheckedChange={setInvert} />
+                  <Label htmlFor="silhouette-invert">{t('voxGenerator.pixelart.invert')}</Label>
+                </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="silhouette-threshold">{t('imageConverter.thresholdLabel')}: {threshold[0]}</Label>
+              <Slider
+                id="silhouette-threshold"
+                min={0}
+                max={255}
+                step={1}
+                value={threshold}
+                onValueChange={setThreshold}
+              />
+            </div>
+          <VoxTransformControls value={transform} onChange={setTransform} idPrefix="silhouette" />
+          <VoxGenerateButton onClick={handleGenerate} isPending={isPending} progress={progress} onCancel={cancelVoxJob} />
+        </CardContent>
+      </Card>
+      <SchematicPreview schematicOutput={schematicOutput} loading={isPending} />
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+'use client';
+
+import { useState, useRef, useEffect, DragEvent } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { SchematicPreview } from '@/components/schematic-preview';
+import { useToast } from '@/hooks/use-toast';
+import { type SchematicOutput } from '@/lib/schematic-utils';
+import { useI18n } from '@/locales/client';
+import { MAX_EXAGGERATION, MAX_MAP_WIDTH, MAX_TERRAIN_HEIGHT, MAX_TERRAIN_VOLUME, terrainModelHeight, type HeightmapToVoxInput, type TerrainHeightInput } from '@/lib/heightmap-to-vox';
+import { MAX_VOX_SIZE } from '@/lib/vox-io';
+import { useVoxWorker } from '@/hooks/use-vox-worker';
+import { UploadCloud } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+import { VoxTransformControls } from './vox-transform-controls';
+import { VoxGenerateButton } from './vox-generate-button';
+import { IDENTITY_TRANSFORM, type VoxTransform } from '@/lib/vox-transform';
+
+type HeightUnit = HeightmapToVoxInput['heightUnit'];
+
+const EXAGGERATION_STEP = 0.25;
+
+// The largest exaggeration that keeps the model within the .vox size limit.
+function maxExaggeration(input: Omit<TerrainHeightInput, 'exaggeration'>): number {
+  let exaggeration = MAX_EXAGGERATION;
+  while (exaggeration > EXAGGERATION_STEP && terrainModelHeight({ ...input, exaggeration }) > MAX_VOX_SIZE) {
+    exaggeration -= EXAGGERATION_STEP;
+  }
+  return exaggeration;
+}
+
+export function VoxGeneratorTerrain() {
+  const t = useI18n();
+  const [mapFile, setMapFile] = useState<File | null>(null);
+  const [mapPreviewUrl, setMapPreviewUrl] = useState<string | null>(null);
+  const [mapWidth, setMapWidth] = useState('64');
+  const [heightUnit, setHeightUnit] = useState<HeightUnit>('voxels');
+  const [maxHeight, setMaxHeight] = useState([16]);
+  const [exaggeration, setExaggeration] = useState([1]);
+  const [baseThickness, setBaseThickness] = useState([2]);
+  const [waterLevel, setWaterLevel] = useState([0]);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const workerRef = useRef<Worker>();
+  const [transform, setTransform] = useState<VoxTransform>(IDENTITY_TRANSFORM);
+
+  const [schematicOutput, setSchematicOutput] = useState<SchematicOutput | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const { toast } = useToast();
+  const { run: runVoxJob, cancel: cancelVoxJob, progress } = useVoxWorker();
+
+  useEffect(() => {
+    return () => {
+      if (mapPreviewUrl) { URL.revokeObjectURL(mapPreviewUrl); }
+    };
+  }, [mapPreviewUrl]);
+
+  useEffect(() => {
+    workerRef.current = new Worker(new URL('../../lib/image.worker.ts', import.meta.url));
+
+    workerRef.current.onerror = () => {
+       toast({
+         title: t('imageConverter.errors.workerError'),
+         description: t('imageConverter.errors.workerErrorDesc'),
+         variant: "destructive",
+       });
+       setSchematicOutput(null);
+       setIsPending(false);
+    }
+
+    return () => {
+      workerRef.current?.terminate();
+    };
+  }, [toast, t]);
+
+  const exaggerationLimit = maxExaggeration({ heightUnit, maxHeight: maxHeight[0], baseThickness: baseThickness[0] });
+  const exaggerationValue = Math.min(exaggeration[0], exaggerationLimit);
+
+  const handleHeightUnitChange = (value: HeightUnit) => {
+    setHeightUnit(value);
+    setMaxHeight([Math.min(maxHeight[0], MAX_TERRAIN_HEIGHT[value])]);
+  };
+
+  const handleGenerateTerrain = () => {
+    if (!mapFile) {
+        toast({ title: t('imageConverter.errors.noImage'), description: t('imageConverter.errors.noImageDesc'), variant: "destructive" });
+        return;
+    }
+    const width = parseInt(mapWidth, 10);
+    if (isNaN(width) || width < 1 || width > MAX_MAP_WIDTH) {
+        toast({ title: t('voxGenerator.errors.invalid', { name: t('imageConverter.widthLabel') }), description: t('voxGenerator.errors.terrainWidth', { max: MAX_MAP_WIDTH }), variant: "destructive" });
+        return;
+    }
+
+    setIsPending(true);
+    setSchematicOutput(null);
+
+    workerRef.current!.onmessage = async (event: MessageEvent<SchematicOutput | { error: string }>) => {
+        if ('error' in event.data) {
+            toast({
+                title: t('imageConverter.errors.conversionFailed'),
+                description: event.data.error,
+                variant: "destructive",
+            });
+            setSchematicOutput(null);
+            setIsPending(false);
+            return;
+        }
+
+        if (event.data.height > MAX_MAP_WIDTH) {
+            toast({ title: t('voxGenerator.errors.invalid', { name: t('imageConverter.widthLabel') }), description: t('voxGenerator.errors.terrainDepth', { max: MAX_MAP_WIDTH }), variant: "destructive" });
+            setIsPending(false);
+            return;
+        }
+        const modelHeight = terrainModelHeight({ heightUnit, maxHeight: maxHeight[0], exaggeration: exaggerationValue, baseThickness: baseThickness[0] });
+        if (event.data.width * event.data.height * modelHeight > MAX_TERRAIN_VOLUME) {
+            toast({ title: t('common.errors.generationFailed'), description: t('voxGenerator.errors.terrainVolume', { max: MAX_TERRAIN_VOLUME }), variant: "destructive" });
+            setIsPending(false);
+            return;
+        }
+
+        try {
+          const result = await runVoxJob({ kind: 'heightmap', input: {
+              heights: event.data.pixels,
+              width: event.data.width,
+              height: event.data.height,
+              heightUnit,
+              maxHeight: maxHeight[0],
+              exaggeration: exaggerationValue,
+              baseThickness: baseThickness[0],
+              waterLevel: waterLevel[0],
+              transform,
+          } });
+          if (!result) return;
+          setSchematicOutput(result);
+        } catch (flowError) {
+           toast({
+            title: t('common.errors.generationFailed'),
+            description: (flowError instanceof Error) ? flowError.message : t('common.errors.serverError'),
+            variant: "destructive",
+          });
+          setSchematicOutput(null);
+        } finally {
+          setIsPending(false);
+        }
+    };
+
+    workerRef.current?.postMessage({ file: mapFile, threshold: 0, outputWidth: width, mode: 'grayscale' });
+  }
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragging(false);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragging(false);
+    processMapFile(event.dataTransfer.files?.[0]);
+  };
+
+  const processMapFile = (selectedFile: File | undefined) => {
+    if (selectedFile) {
+      if (!selectedFile.type.startsWith('image/')) {
+        toast({
+          title: t('imageConverter.errors.invalidFileType'),
+          description: t('imageConverter.errors.invalidFileTypeDesc'),
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setMapFile(selectedFile);
+      setSchematicOutput(null);
+
+      if (mapPreviewUrl) {
+          URL.revokeObjectURL(mapPreviewUrl);
+      }
+      setMapPreviewUrl(URL.createObjectURL(selectedFile));
+    }
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <Card className="bg-card/70 border-primary/20 backdrop-blur-sm">
+        <CardContent className="space-y-6 pt-6">
+            <div className="space-y-2">
+                <Label htmlFor="terrain-upload">{t('voxGenerator.terrain.heightmapLabel')}</Label>
+                <div
+                  className={cn(
+                    "mt-2 flex justify-center rounded-lg border border-dashed border-input px-6 py-10 cursor-pointer hover:border-primary transition-colors",
+                     isDragging && "border-primary bg-primary/10"
+                  )}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  onDrop={handleDrop}
+                >
+                  <div className="text-center">
+                    {mapPreviewUrl ? (
+                      <Image
+                        src={mapPreviewUrl}
+                        alt={t('imageConverter.previewAlt')}
+                        width={200}
+                        height={200}
+                        className="mx-auto h-32 w-auto rounded-md object-contain"
+                      />
+                    ) : (
+                      <>
+                        <UploadCloud className="mx-auto h-12 w-12 text-muted-foreground" />
+                        <div className="mt-4 flex text-sm leading-6 text-muted-foreground">
+                          <p className="pl-1">{t('imageConverter.dropzone')}</p>
+                        </div>
+                        <p className="text-xs leading-5 text-muted-foreground">{t('voxGenerator.terrain.heightmapHint')}</p>
+                      </>
+                    )}
+                    <Input
+                      ref={fileInputRef}
+                      id="terrain-upload"
+                      type="file"
+                      className="sr-only"
+                      onChange={(e) => processMapFile(e.target.files?.[0])}
+                      accept="image/png, image/jpeg, image/gif"
+                    />
+                  </div>
+                </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <Label htmlFor="terrain-width">{t('imageConverter.widthLabel')}</Label>
+                    <Input
+                      id="terrain-width"
+                      type="number"
+                      value={mapWidth}
+                      onChange={(e) => setMapWidth(e.target.value)}
+                      placeholder="e.g., 64"
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label>{t('voxGenerator.terrain.heightUnit')}</Label>
+                    <RadioGroup value={heightUnit} onValueChange={(v) => handleHeightUnitChange(v as HeightUnit)} className="flex pt-2 space-x-4">
+                        <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="voxels" id="terrain-unit-voxels" />
+                            <Label htmlFor="terrain-unit-voxels">{t('voxGenerator.terrain.units.voxels')}</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="blocks" id="terrain-unit-blocks" />
+                            <Label htmlFor="terrain-unit-blocks">{t('voxGenerator.terrain.units.blocks')}</Label>
+                        </div>
+                    </RadioGroup>
+                </div>
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="terrain-max-height">{t('voxGenerator.terrain.maxHeight')}: {maxHeight[0]} {t(`voxGenerator.terrain.units.${heightUnit}`)}</Label>
+                <Slider
+                    id="terrain-max-height"
+                    min={1} max={MAX_TERRAIN_HEIGHT[heightUnit]} step={1}
+                    value={maxHeight}
+                    onValueChange={setMaxHeight}
+                />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="terrain-exaggeration">{t('voxGenerator.terrain.exaggeration')}: {exaggerationValue}x</Label>
+                <Slider
+                    id="terrain-exaggeration"
+                    min={EXAGGERATION_STEP} max={exaggerationLimit} step={EXAGGERATION_STEP}
+                    value={[exaggerationValue]}
+                    onValueChange={setExaggeration}
+                />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="terrain-base">{t('voxGenerator.terrain.baseThickness')}: {baseThickness[0]}px</Label>
+                <Slider
+                    id="terrain-base"
+                    min={0} max={16} step={1}
+                    value={baseThickness}
+                    onValueChange={setBaseThickness}
+                />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="terrain-water">{t('voxGenerator.terrain.waterLevel')}: {waterLevel[0] > 0 ? `${waterLevel[0]}%` : t('voxGenerator.terrain.waterOff')}</Label>
+                <Slider
+                    id="terrain-water"
+                    min={0} max={100} step={1}
+                    value={waterLevel}
+                    onValueChange={setWaterLevel}
+                />
+            </div>
+          <VoxTransformControls value={transform} onChange={setTransform} idPrefix="terrain" />
+          <VoxGenerateButton onClick={handleGenerateTerrain} isPending={isPending} progress={progress} onCancel={cancelVoxJob} />
+        </CardContent>
+      </Card>
+      <SchematicPreview schematicOutput={schematicOutput} loading={isPending} />
+    </div>
+  );
+}
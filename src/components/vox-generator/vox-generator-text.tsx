@@ -11,12 +11,16 @@ import { SchematicPreview } from '@/components/schematic-preview';
 import { useToast } from '@/hooks/use-toast';
 import { type FontStyle, type TextOrientation, rasterizeText } from '@/lib/schematic-utils';
 import { useI18n } from '@/locales/client';
-import { generateTextToVoxFlow, type TextToVoxInput, type TextToVoxOutput } from '@/ai/flows/text-to-vox-flow';
-import { Loader2, Upload } from 'lucide-react';
+import type { TextToVoxInput } from '@/lib/text-to-vox';
+import { useVoxWorker } from '@/hooks/use-vox-worker';
+import { Upload } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '../ui/switch';
 import { cn } from '@/lib/utils';
+import { VoxTransformControls } from './vox-transform-controls';
+import { VoxGenerateButton } from './vox-generate-button';
+import { IDENTITY_TRANSFORM, type VoxTransform } from '@/lib/vox-transform';
 
 type TextVoxMode = 'extrude' | 'engrave';
 
@@ -34,10 +38,12 @@ export function VoxGeneratorText() {
   const [textOrientation, setTextOrientation] = useState<TextOrientation>('horizontal');
   const [textOutline, setTextOutline] = useState(false);
   const [textOutlineGap, setTextOutlineGap] = useState([1]);
+  const [transform, setTransform] = useState<VoxTransform>(IDENTITY_TRANSFORM);
   
   const [schematicOutput, setSchematicOutput] = useState<any | null>(null);
   const [isPending, setIsPending] = useState(false);
   const { toast } = useToast();
+  const { run: runVoxJob, cancel: cancelVoxJob, progress } = useVoxWorker();
 
   useEffect(() => {
     return () => {
@@ -104,11 +110,12 @@ export function VoxGeneratorText() {
             engraveDepth: textVoxMode === 'engrave' ? engraveDepth[0] : 0,
             orientation: textOrientation,
             stickerMode: textStickerMode,
+            transform,
         };
 
-        const result: TextToVoxOutput = await generateTextToVoxFlow(input);
-        const voxDataBytes = Buffer.from(result.voxData, 'base64');
-        setSchematicOutput({ ...result, voxData: voxDataBytes, voxSize: result.voxSize });
+        const result = await runVoxJob({ kind: 'text', input });
+        if (!result) return;
+        setSchematicOutput(result);
 
     } catch (error) {
         console.error(error);
@@ -263,14 +270,8 @@ export function VoxGeneratorText() {
                 </div>
             </div>
           )}
-          <Button onClick={handleGenerateText} disabled={isPending} className="w-full uppercase font-bold tracking-wider">
-            {isPending ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                {t('common.generating')}
-              </>
-            ) : t('voxGenerator.button')}
-          </Button>
+          <VoxTransformControls value={transform} onChange={setTransform} idPrefix="text" />
+          <VoxGenerateButton onClick={handleGenerateText} isPending={isPending} progress={progress} onCancel={cancelVoxJob} />
         </CardContent>
       </Card>
       <SchematicPreview schematicOutput={schematicOutput} loading={isPending} />
@@ -0,0 +1,174 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '../ui/switch';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/locales/client';
+import {
+  defaultParams,
+  isParamVisible,
+  paramEntries,
+  type AnyParamSpec,
+  type AnyVoxShapePlugin,
+  type IntegerParam,
+  type PluginShape,
+} from '@/lib/vox-shapes';
+
+// Form state of one shape. Integer fields keep the typed text until generation.
+export type ShapeFormValues = Record<string, unknown>;
+
+export function defaultFormValues(plugin: AnyVoxShapePlugin): ShapeFormValues {
+  const values = defaultParams(plugin);
+  for (const [name, spec] of paramEntries(plugin)) {
+    if (spec.type === 'integer') values[name] = String(spec.default);
+  }
+  return values;
+}
+
+const parseInteger = (value: unknown) => parseInt(String(value), 10);
+
+const isValidInteger = (value: number, spec: IntegerParam<PluginShape>) => !isNaN(value) && value >= (spec.min ?? 1);
+
+/**
+ * Parses the form state into shape parameters. Integers that don't parse stay NaN,
+ * so callers can report them (see findInvalidInteger); hidden ones don't affect the
+ * shape and fall back to their default, as the generator still needs a number.
+ */
+export function readFormValues(plugin: AnyVoxShapePlugin, values: ShapeFormValues): PluginShape {
+  const params: ShapeFormValues = { ...values, type: plugin.type };
+  const integers = paramEntries(plugin).filter(([, spec]) => spec.type === 'integer');
+  for (const [name] of integers) {
+    params[name] = parseInteger(values[name]);
+  }
+  // The form holds a value for every parameter in the schema, see defaultFormValues().
+  const shape = params as PluginShape;
+  for (const [name, spec] of integers) {
+    if (spec.type === 'integer' && !isValidInteger(parseInteger(values[name]), spec) && !isParamVisible(spec, shape)) {
+      params[name] = spec.default;
+    }
+  }
+  return shape;
+}
+
+// The first shown integer field that doesn't hold a whole number of at least `min`.
+export function findInvalidInteger(plugin: AnyVoxShapePlugin, values: ShapeFormValues): IntegerParam<PluginShape> | null {
+  const params = readFormValues(plugin, values);
+  for (const [name, spec] of paramEntries(plugin)) {
+    if (spec.type === 'integer' && isParamVisible(spec, params) && !isValidInteger(parseInteger(values[name]), spec)) {
+      return spec;
+    }
+  }
+  return null;
+}
+
+const resolve = (bound: number | ((params: PluginShape) => number), params: PluginShape) =>
+  typeof bound === 'function' ? bound(params) : bound;
+
+interface VoxShapeFormProps {
+  plugin: AnyVoxShapePlugin;
+  values: ShapeFormValues;
+  onChange: (values: ShapeFormValues) => void;
+}
+
+/**
+ * Renders the parameter schema of a shape plugin as form controls.
+ */
+export function VoxShapeForm({ plugin, values, onChange }: VoxShapeFormProps) {
+  const t = useI18n();
+  const params = readFormValues(plugin, values);
+
+  const set = (name: string, value: unknown, excludes: string[] = []) => {
+    const next = { ...values, [name]: value };
+    if (value === true) excludes.forEach(other => { next[other] = false; });
+    onChange(next);
+  };
+
+  const renderControl = (name: string, spec: AnyParamSpec<PluginShape>) => {
+    const id = `${plugin.type}-${name}`;
+    const label = t(spec.label);
+    const disabled = spec.disabled?.(params) ?? false;
+
+    switch (spec.type) {
+      case 'integer':
+        return (
+          <>
+            <Label htmlFor={id}>{t('voxGenerator.voxelsLabel', { label })}</Label>
+            <Input id={id} type="number" value={String(values[name])} onChange={e => set(name, e.target.value)} placeholder={t('voxGenerator.examplePlaceholder', { value: spec.default })} disabled={disabled} />
+          </>
+        );
+      case 'slider': {
+        const value = Number(values[name]);
+        return (
+          <>
+            <Label htmlFor={id}>{label}: {value}{spec.unit}</Label>
+            <Slider
+              id={id}
+              min={resolve(spec.min, params)}
+              max={resolve(spec.max, params)}
+              step={spec.step ?? 1}
+              value={[value]}
+              onValueChange={(v) => set(name, v[0])}
+              disabled={disabled}
+            />
+          </>
+        );
+      }
+      case 'boolean':
+        return (
+          <div className="flex items-center space-x-2 pt-2">
+            <Switch id={id} checked={!!values[name]} onCheckedChange={(checked) => set(name, checked, spec.excludes)} disabled={disabled} />
+            <Label htmlFor={id} className={cn(disabled && "text-muted-foreground")}>{label}</Label>
+          </div>
+        );
+      case 'choice':
+        if (spec.display === 'radio') {
+          return (
+            <>
+              <Label>{label}</Label>
+              <RadioGroup value={String(values[name])} onValueChange={(v) => set(name, v)} className="flex flex-wrap pt-2 gap-x-4 gap-y-2" disabled={disabled}>
+                {spec.options.map(option => (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <RadioGroupItem value={option.value} id={`${id}-${option.value}`} />
+                    <Label htmlFor={`${id}-${option.value}`}>{t(option.label)}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </>
+          );
+        }
+        return (
+          <>
+            <Label htmlFor={id}>{label}</Label>
+            <Select value={String(values[name])} onValueChange={(v) => set(name, v)} disabled={disabled}>
+              <SelectTrigger id={id}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {spec.options.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{t(option.label)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-start">
+      {paramEntries(plugin).filter(([, spec]) => isParamVisible(spec, params)).map(([name, spec]) => {
+        const hint = spec.hint?.(params);
+        return (
+          <div key={name} className="space-y-2">
+            {renderControl(name, spec)}
+            {hint && <p className="text-xs text-muted-foreground">{t(hint.text, { value: hint.value })}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
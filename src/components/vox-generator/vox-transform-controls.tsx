@@ -0,0 +1,68 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Switch } from '../ui/switch';
+import { ChevronDown, RotateCw } from 'lucide-react';
+import { useI18n } from '@/locales/client';
+import { isIdentityTransform, IDENTITY_TRANSFORM, type RotationAngle, type VoxTransform } from '@/lib/vox-transform';
+
+interface VoxTransformControlsProps {
+  value: VoxTransform;
+  onChange: (value: VoxTransform) => void;
+  idPrefix: string;
+}
+
+const ROTATION_ANGLES: RotationAngle[] = [0, 90, 180, 270];
+
+export function VoxTransformControls({ value, onChange, idPrefix }: VoxTransformControlsProps) {
+  const t = useI18n();
+
+  return (
+    <Collapsible className="rounded-lg border border-dashed border-input">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between">
+          <span className="flex items-center">
+            <RotateCw className="mr-2 h-4 w-4" />
+            {t('voxGenerator.transform.title')}
+            {!isIdentityTransform(value) && <span className="ml-2 text-xs text-primary">{t('voxGenerator.transform.active')}</span>}
+          </span>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 p-4 pt-2">
+        <div className="grid grid-cols-3 gap-4">
+          {(['rotateX', 'rotateY', 'rotateZ'] as const).map(field => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`${idPrefix}-${field}`}>{t(`voxGenerator.transform.${field}`)}</Label>
+              <Select value={String(value[field] ?? 0)} onValueChange={(v) => onChange({ ...value, [field]: Number(v) as RotationAngle })}>
+                <SelectTrigger id={`${idPrefix}-${field}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROTATION_ANGLES.map(angle => (
+                    <SelectItem key={angle} value={String(angle)}>{angle}°</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">{t('voxGenerator.transform.facingHint')}</p>
+        <div className="flex flex-wrap items-center gap-4">
+          {(['mirrorX', 'mirrorY', 'mirrorZ'] as const).map(field => (
+            <div key={field} className="flex items-center space-x-2">
+              <Switch id={`${idPrefix}-${field}`} checked={!!value[field]} onCheckedChange={(checked) => onChange({ ...value, [field]: checked })} />
+              <Label htmlFor={`${idPrefix}-${field}`}>{t(`voxGenerator.transform.${field}`)}</Label>
+            </div>
+          ))}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => onChange(IDENTITY_TRANSFORM)} disabled={isIdentityTransform(value)}>
+          {t('voxGenerator.transform.reset')}
+        </Button>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
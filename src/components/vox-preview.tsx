@@ -1,6 +1,18 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Eraser, PaintBucket, Plus, Redo2, Undo2, type LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/locales/client';
+import { VoxEditView } from '@/components/vox-edit-view';
+import { applyVoxelEdit, setPaletteColor, type VoxEditTool, type VoxFace } from '@/lib/vox-editing';
+import { decodeVox, encodeVox, isAnchorVoxel, type VoxColor } from '@/lib/vox-io';
+import { buildPreviewModel, modelLayerCount, type SectionAxis } from '@/lib/vox-section';
 
 // Define the custom element type for TypeScript
 declare global {
@@ -17,10 +29,43 @@ declare global {
 
 interface VoxPreviewProps {
   voxData: Uint8Array;
+  // Enables voxel editing; receives the re-encoded model after every edit.
+  onChange?: (voxData: Uint8Array) => void;
 }
 
-export function VoxPreview({ voxData }: VoxPreviewProps) {
+interface EditHistory {
+  past: Uint8Array[];
+  future: Uint8Array[];
+}
+
+const SECTION_AXES: SectionAxis[] = ['x', 'y', 'z'];
+const MAX_HISTORY = 100;
+
+const EDIT_TOOLS: { tool: VoxEditTool, icon: LucideIcon }[] = [
+  { tool: 'add', icon: Plus },
+  { tool: 'remove', icon: Eraser },
+  { tool: 'paint', icon: PaintBucket },
+];
+// Palette index 0 means "empty" in .vox files, so only 1..255 can be picked.
+const PALETTE_INDICES = Array.from({ length: 255 }, (_, i) => i + 1);
+
+const toHex = ({ r, g, b }: VoxColor) => '#' + [r, g, b].map(c => c.toString(16).padStart(2, '0')).join('');
+
+export function VoxPreview({ voxData, onChange }: VoxPreviewProps) {
+  const t = useI18n();
   const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [sectionEnabled, setSectionEnabled] = useState(false);
+  const [sectionAxis, setSectionAxis] = useState<SectionAxis>('y');
+  const [sectionPosition, setSectionPosition] = useState([1]);
+  const [singleLayer, setSingleLayer] = useState(false);
+  const [blockGrid, setBlockGrid] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [history, setHistory] = useState<EditHistory>({ past: [], future: [] });
+  const [tool, setTool] = useState<VoxEditTool>('add');
+  const [colorIndex, setColorIndex] = useState(1);
+  const knownDataRef = useRef<Uint8Array | null>(null);
+  // Palette entry changed by the last edit, so dragging the colour picker is one undo step.
+  const lastColorEditRef = useRef<number | null>(null);
   const viewerRef = useRef<HTMLElement>(null);
   const [isClient, setIsClient] = useState(false)
  
@@ -34,10 +79,98 @@ export function VoxPreview({ voxData }: VoxPreviewProps) {
     import('vox-viewer');
   }, []);
 
+  const model = useMemo(() => {
+    try {
+      return voxData && voxData.length > 0 ? decodeVox(voxData) : null;
+    } catch {
+      return null;
+    }
+  }, [voxData]);
+
+  const layerCount = model ? modelLayerCount(model, sectionAxis) : 1;
+  const position = Math.min(sectionPosition[0], layerCount);
+
+  // Start a new axis with the whole model visible.
+  useEffect(() => {
+    setSectionPosition([layerCount]);
+  }, [layerCount]);
+
+  // A model that did not come from our own edits starts a fresh history.
+  useEffect(() => {
+    if (voxData === knownDataRef.current) return;
+    knownDataRef.current = voxData;
+    setHistory({ past: [], future: [] });
+    setSectionPosition([layerCount]);
+    // Start with the main colour of the model selected.
+    const used = model?.voxels.find(v => !isAnchorVoxel(v));
+    setColorIndex(used?.i ?? 1);
+  }, [voxData, model, layerCount]);
+
+  // Clipping and the block tint are baked into a derived model, as the viewer only takes a file.
+  // The edit view draws the same model, so voxels inside are reached through the cross-section.
+  const previewModel = useMemo(() => {
+    if (!model || (!sectionEnabled && !blockGrid)) return model;
+    return buildPreviewModel(model, {
+      section: sectionEnabled ? { axis: sectionAxis, position, singleLayer } : null,
+      blockGrid,
+    });
+  }, [model, sectionEnabled, sectionAxis, position, singleLayer, blockGrid]);
+
+  const previewData = useMemo(
+    () => previewModel && previewModel !== model ? encodeVox(previewModel) : voxData,
+    [voxData, model, previewModel],
+  );
+
+  const emit = (next: Uint8Array, nextHistory: EditHistory) => {
+    knownDataRef.current = next;
+    setHistory(nextHistory);
+    onChange?.(next);
+  };
+
+  const commit = (next: Uint8Array) => {
+    lastColorEditRef.current = null;
+    emit(next, { past: [...history.past, voxData].slice(-MAX_HISTORY), future: [] });
+  };
+
+  const handlePick = (face: VoxFace) => {
+    if (!model) return;
+    const next = applyVoxelEdit(model, face, tool, colorIndex);
+    if (next) commit(encodeVox(next));
+  };
+
+  const handleColorChange = (hex: string) => {
+    if (!model) return;
+    const next = encodeVox(setPaletteColor(model, colorIndex, {
+      r: parseInt(hex.slice(1, 3), 16),
+      g: parseInt(hex.slice(3, 5), 16),
+      b: parseInt(hex.slice(5, 7), 16),
+    }));
+    if (lastColorEditRef.current === colorIndex) {
+      emit(next, history);
+      return;
+    }
+    commit(next);
+    lastColorEditRef.current = colorIndex;
+  };
+
+  const undo = () => {
+    lastColorEditRef.current = null;
+    const previous = history.past[history.past.length - 1];
+    if (!previous) return;
+    emit(previous, { past: history.past.slice(0, -1), future: [voxData, ...history.future] });
+  };
+
+  const redo = () => {
+    lastColorEditRef.current = null;
+    const [next, ...future] = history.future;
+    if (!next) return;
+    emit(next, { past: [...history.past, voxData], future });
+  };
+
   useEffect(() => {
-    if (voxData && voxData.length > 0) {
+    if (previewData && previewData.length > 0) {
       // Create a Blob from the Uint8Array
-      const blob = new Blob([voxData], { type: 'application/octet-stream' });
+      const blob = new Blob([previewData], { type: 'application/octet-stream' });
       // Create an object URL from the Blob
       const url = URL.createObjectURL(blob);
       setObjectUrl(url);
@@ -48,24 +181,133 @@ export function VoxPreview({ voxData }: VoxPreviewProps) {
         setObjectUrl(null);
       };
     }
-  }, [voxData]);
+  }, [previewData]);
   
   if (!isClient) {
     return null;
   }
 
   return (
-    <div className="w-full h-full min-h-[400px] border border-dashed border-input rounded-lg flex items-center justify-center bg-black/20">
-      {objectUrl ? (
-        <vox-viewer
-          ref={viewerRef}
-          src={objectUrl}
-          camera-controls
-          auto-rotate
-          style={{ width: '100%', height: '400px', cursor: 'grab' }}
-        />
-      ) : (
-        <p className="text-muted-foreground">Loading preview...</p>
+    <div className="space-y-3">
+      <div className="w-full h-full min-h-[400px] border border-dashed border-input rounded-lg flex items-center justify-center bg-black/20">
+        {editing && previewModel ? (
+          <VoxEditView model={previewModel} onPick={handlePick} />
+        ) : objectUrl ? (
+          <vox-viewer
+            ref={viewerRef}
+            src={objectUrl}
+            camera-controls
+            auto-rotate
+            style={{ width: '100%', height: '400px', cursor: 'grab' }}
+          />
+        ) : (
+          <p className="text-muted-foreground">{t('voxPreview.loading')}</p>
+        )}
+      </div>
+      {model && (
+        <div className="space-y-3 rounded-lg border border-input p-3">
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            <div className="flex items-center space-x-2">
+              <Switch id="vox-preview-section" checked={sectionEnabled} onCheckedChange={setSectionEnabled} />
+              <Label htmlFor="vox-preview-section">{t('voxPreview.section')}</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="vox-preview-grid" checked={blockGrid} onCheckedChange={setBlockGrid} />
+              <Label htmlFor="vox-preview-grid">{t('voxPreview.blockGrid')}</Label>
+            </div>
+            {onChange && (
+              <div className="flex items-center space-x-2">
+                <Switch id="vox-preview-edit" checked={editing} onCheckedChange={setEditing} />
+                <Label htmlFor="vox-preview-edit">{t('voxPreview.edit')}</Label>
+              </div>
+            )}
+          </div>
+          {sectionEnabled && (
+            <>
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+                <RadioGroup value={sectionAxis} onValueChange={(v) => setSectionAxis(v as SectionAxis)} className="flex space-x-4">
+                  {SECTION_AXES.map(axis => (
+                    <div key={axis} className="flex items-center space-x-2">
+                      <RadioGroupItem value={axis} id={`vox-preview-axis-${axis}`} />
+                      <Label htmlFor={`vox-preview-axis-${axis}`}>{t(`voxPreview.axes.${axis}`)}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+                <div className="flex items-center space-x-2">
+                  <Switch id="vox-preview-single" checked={singleLayer} onCheckedChange={setSingleLayer} />
+                  <Label htmlFor="vox-preview-single">{t('voxPreview.singleLayer')}</Label>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vox-preview-layer">
+                  {t('voxPreview.layer', { layer: position, total: layerCount, block: Math.floor((position - 1) / 16) + 1 })}
+                </Label>
+                <Slider
+                  id="vox-preview-layer"
+                  min={1} max={layerCount} step={1}
+                  value={[position]}
+                  onValueChange={setSectionPosition}
+                />
+              </div>
+            </>
+          )}
+          {editing && model && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">{t('voxPreview.editHint')}</p>
+              <div className="flex flex-wrap items-center gap-1">
+                {EDIT_TOOLS.map(({ tool: value, icon: Icon }) => (
+                  <Button
+                    key={value}
+                    type="button"
+                    size="icon"
+                    variant={tool === value ? 'default' : 'outline'}
+                    className="h-8 w-8"
+                    title={t(`voxPreview.tools.${value}`)}
+                    onClick={() => setTool(value)}
+                  >
+                    <Icon className="h-4 w-4" />
+                  </Button>
+                ))}
+                <div className="mx-1 h-6 w-px bg-border" />
+                <Button type="button" size="icon" variant="outline" className="h-8 w-8" title={t('pixelEditor.undo')} onClick={undo} disabled={history.past.length === 0}>
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button type="button" size="icon" variant="outline" className="h-8 w-8" title={t('pixelEditor.redo')} onClick={redo} disabled={history.future.length === 0}>
+                  <Redo2 className="h-4 w-4" />
+                </Button>
+                <div className="mx-1 h-6 w-px bg-border" />
+                <input
+                  type="color"
+                  value={toHex(model.palette[colorIndex] ?? { r: 0, g: 0, b: 0, a: 0 })}
+                  onChange={(e) => handleColorChange(e.target.value)}
+                  className="h-8 w-10 cursor-pointer rounded border border-input bg-transparent"
+                  title={t('voxPreview.editColor', { index: colorIndex })}
+                  aria-label={t('voxPreview.editColor', { index: colorIndex })}
+                />
+              </div>
+              <div className="flex flex-wrap gap-0.5" aria-label={t('pixelEditor.palette')}>
+                {PALETTE_INDICES.map(index => {
+                  const color = model.palette[index];
+                  const unused = !color || color.a === 0;
+                  return (
+                    <button
+                      key={index}
+                      type="button"
+                      title={t('voxPreview.paletteEntry', { index })}
+                      className={cn(
+                        "h-4 w-4 rounded-sm border border-foreground/20",
+                        unused && "border-dashed bg-transparent",
+                        colorIndex === index && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+                      )}
+                      style={unused ? undefined : { backgroundColor: `rgb(${color.r}, ${color.g}, ${color.b})` }}
+                      onClick={() => setColorIndex(index)}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
       )}
     </div>
   );
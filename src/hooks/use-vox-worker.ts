@@ -0,0 +1,62 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SchematicOutput } from '@/lib/schematic-utils';
+import type { VoxJob, VoxWorkerMessage } from '@/lib/vox-jobs';
+
+/**
+ * Runs .vox generation in a dedicated worker, one job at a time. Cancelling
+ * terminates the worker, so even a long generation stops immediately.
+ */
+export function useVoxWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const settleRef = useRef<((result: SchematicOutput | null) => void) | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    settleRef.current = null;
+    setProgress(null);
+  }, []);
+
+  const cancel = useCallback(() => {
+    const settle = settleRef.current;
+    stop();
+    settle?.(null);
+  }, [stop]);
+
+  // Resolves with the output for the preview, or null when the job is cancelled or replaced by a newer one.
+  const run = useCallback((job: VoxJob) => {
+    cancel();
+    return new Promise<SchematicOutput | null>((resolve, reject) => {
+      const worker = new Worker(new URL('../lib/vox.worker.ts', import.meta.url));
+      workerRef.current = worker;
+      settleRef.current = resolve;
+      setProgress(0);
+
+      worker.onmessage = (event: MessageEvent<VoxWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          setProgress(message.progress);
+          return;
+        }
+        stop();
+        if (message.type === 'result') {
+          resolve({ ...message.result, pixels: [] }); // No 2D pixel preview for voxels
+        } else {
+          reject(new Error(message.error));
+        }
+      };
+      worker.onerror = (event) => {
+        stop();
+        reject(new Error(event.message || 'An unknown error occurred in the worker.'));
+      };
+      worker.postMessage(job);
+    });
+  }, [cancel, stop]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { run, cancel, progress };
+}
@@ -0,0 +1,124 @@
+import { decodeVox, type VoxColor } from './vox-io';
+import { BLOCK_SIZE, splitVoxIntoBlocks } from './vox-blocks';
+
+type Vec3 = { x: number, y: number, z: number };
+
+/**
+ * Texts printed on the guide. The component passes translated strings in.
+ */
+export interface BuildGuideLabels {
+  title: string;
+  block: (block: Vec3) => string;
+  layer: (layer: number, height: number) => string;
+  voxels: (count: number) => string;
+  page: (page: number, total: number) => string;
+  orientation: string;
+}
+
+// Page layout in millimetres, A4 portrait.
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CELL = 2.5;
+const LAYER_SIZE = BLOCK_SIZE * CELL;
+const LAYER_COLUMNS = 4;
+const LAYER_GAP_X = (PAGE_WIDTH - 2 * MARGIN - LAYER_COLUMNS * LAYER_SIZE) / (LAYER_COLUMNS - 1);
+const LAYER_GAP_Y = 14;
+const HEADER_HEIGHT = 34;
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function colorCss(color: VoxColor | undefined): string {
+  return color ? `rgb(${color.r},${color.g},${color.b})` : '#888';
+}
+
+function renderLayer(voxels: { x: number, y: number, i: number }[], palette: VoxColor[], left: number, top: number): string {
+  const parts: string[] = [];
+  parts.push(`<rect x="${left}" y="${top}" width="${LAYER_SIZE}" height="${LAYER_SIZE}" fill="#fff" stroke="none"/>`);
+  // Seen from above, the front edge of the block (y = 0 in file space) at the bottom.
+  for (const v of voxels) {
+    const x = left + v.x * CELL;
+    const y = top + (BLOCK_SIZE - 1 - v.y) * CELL;
+    parts.push(`<rect x="${x}" y="${y}" width="${CELL}" height="${CELL}" fill="${colorCss(palette[v.i])}"/>`);
+  }
+  for (let i = 0; i <= BLOCK_SIZE; i++) {
+    const strong = i % 4 === 0;
+    const width = strong ? 0.25 : 0.1;
+    const offset = i * CELL;
+    parts.push(`<line x1="${left + offset}" y1="${top}" x2="${left + offset}" y2="${top + LAYER_SIZE}" stroke="#444" stroke-width="${width}"/>`);
+    parts.push(`<line x1="${left}" y1="${top + offset}" x2="${left + LAYER_SIZE}" y2="${top + offset}" stroke="#444" stroke-width="${width}"/>`);
+  }
+  return parts.join('');
+}
+
+/**
+ * Renders one printable page per non-empty 16x16x16 block. Each page shows the
+ * block's 16 horizontal layers from the bottom up, with voxel counts and a colour key.
+ * The result is an HTML document of SVG pages that prints one block per sheet.
+ */
+export function createBuildGuide(voxData: Uint8Array, labels: BuildGuideLabels): string {
+  // Without block anchors the block files hold only material; the model's anchor is left out too.
+  const { manifest, blocks } = splitVoxIntoBlocks(voxData, { anchor: false });
+  if (blocks.length === 0) {
+    throw new Error('The model has no voxels to build.');
+  }
+
+  const pages = blocks.map(({ entry, voxData: blockData }, pageIndex) => {
+    const model = decodeVox(blockData);
+    const layers = Array.from({ length: BLOCK_SIZE }, () => [] as { x: number, y: number, i: number }[]);
+    const colorCounts = new Map<number, number>();
+    for (const v of model.voxels) {
+      layers[v.z].push({ x: v.x, y: v.y, i: v.i });
+      colorCounts.set(v.i, (colorCounts.get(v.i) ?? 0) + 1);
+    }
+
+    const parts: string[] = [];
+    parts.push(`<text x="${MARGIN}" y="${MARGIN + 5}" font-size="6" font-weight="bold">${escapeXml(labels.title)}</text>`);
+    parts.push(`<text x="${PAGE_WIDTH - MARGIN}" y="${MARGIN + 5}" font-size="3.5" text-anchor="end">${escapeXml(labels.page(pageIndex + 1, blocks.length))}</text>`);
+    parts.push(`<text x="${MARGIN}" y="${MARGIN + 13}" font-size="4.5">${escapeXml(labels.block(entry.block))} · ${escapeXml(labels.voxels(entry.voxelCount))}</text>`);
+    parts.push(`<text x="${MARGIN}" y="${MARGIN + 19}" font-size="3" fill="#555">${escapeXml(labels.orientation)}</text>`);
+
+    let keyX = MARGIN;
+    for (const [colorIndex, count] of [...colorCounts.entries()].sort((a, b) => a[0] - b[0])) {
+      if (keyX > PAGE_WIDTH - MARGIN - 20) break;
+      parts.push(`<rect x="${keyX}" y="${MARGIN + 22}" width="3" height="3" fill="${colorCss(model.palette[colorIndex])}" stroke="#444" stroke-width="0.15"/>`);
+      parts.push(`<text x="${keyX + 4}" y="${MARGIN + 24.6}" font-size="2.8">#${colorIndex}: ${count}</text>`);
+      keyX += 22;
+    }
+
+    layers.forEach((voxels, layer) => {
+      const column = layer % LAYER_COLUMNS;
+      const row = Math.floor(layer / LAYER_COLUMNS);
+      const left = MARGIN + column * (LAYER_SIZE + LAYER_GAP_X);
+      const top = MARGIN + HEADER_HEIGHT + row * (LAYER_SIZE + LAYER_GAP_Y);
+      const height = entry.voxelOffset.y + layer;
+      parts.push(`<text x="${left}" y="${top - 4.5}" font-size="3" font-weight="bold">${escapeXml(labels.layer(layer + 1, height))}</text>`);
+      parts.push(`<text x="${left}" y="${top - 1.2}" font-size="2.6" fill="#555">${escapeXml(labels.voxels(voxels.length))}</text>`);
+      parts.push(renderLayer(voxels, model.palette, left, top));
+    });
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" class="page" width="${PAGE_WIDTH}mm" height="${PAGE_HEIGHT}mm" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}" font-family="sans-serif">${parts.join('')}</svg>`;
+  });
+
+  const { width, height, depth } = manifest.modelSize;
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeXml(labels.title)} (${width}x${height}x${depth})</title>`,
+    '<style>',
+    '@page { size: A4 portrait; margin: 0; }',
+    'body { margin: 0; background: #ccc; }',
+    '.page { display: block; margin: 8mm auto; background: #fff; break-after: page; }',
+    '@media print { body { background: none; } .page { margin: 0; } }',
+    '</style>',
+    '</head>',
+    '<body>',
+    ...pages,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
@@ -0,0 +1,121 @@
+export type QuantizeMethod = 'median-cut' | 'k-means';
+
+export const MIN_QUANTIZE_COLORS = 2;
+export const MAX_QUANTIZE_COLORS = 32;
+
+type RGB = { r: number, g: number, b: number };
+type WeightedColor = RGB & { count: number };
+
+const K_MEANS_ITERATIONS = 12;
+
+/**
+ * Builds a histogram of the opaque pixels. Channels are reduced to 5 bits so
+ * large photos stay at a few thousand entries at most.
+ */
+export function colorHistogram(data: Uint8ClampedArray, alphaThreshold = 128): WeightedColor[] {
+  const bins = new Map<number, WeightedColor>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < alphaThreshold) continue;
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const bin = bins.get(key);
+    if (bin) {
+      bin.r += r; bin.g += g; bin.b += b; bin.count++;
+    } else {
+      bins.set(key, { r, g, b, count: 1 });
+    }
+  }
+  return Array.from(bins.values()).map(bin => ({
+    r: bin.r / bin.count,
+    g: bin.g / bin.count,
+    b: bin.b / bin.count,
+    count: bin.count,
+  }));
+}
+
+function average(colors: WeightedColor[]): RGB {
+  let r = 0, g = 0, b = 0, total = 0;
+  for (const c of colors) {
+    r += c.r * c.count; g += c.g * c.count; b += c.b * c.count; total += c.count;
+  }
+  return { r: Math.round(r / total), g: Math.round(g / total), b: Math.round(b / total) };
+}
+
+function medianCut(histogram: WeightedColor[], maxColors: number): RGB[] {
+  const boxes: WeightedColor[][] = [histogram];
+
+  while (boxes.length < maxColors) {
+    // Split the box with the widest channel range.
+    let target = -1, targetChannel: keyof RGB = 'r', widest = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      for (const channel of ['r', 'g', 'b'] as const) {
+        let min = Infinity, max = -Infinity;
+        for (const c of box) {
+          min = Math.min(min, c[channel]);
+          max = Math.max(max, c[channel]);
+        }
+        if (max - min > widest) {
+          widest = max - min;
+          target = index;
+          targetChannel = channel;
+        }
+      }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target].sort((a, b) => a[targetChannel] - b[targetChannel]);
+    const half = box.reduce((sum, c) => sum + c.count, 0) / 2;
+    let split = 0, seen = 0;
+    while (split < box.length - 1 && seen + box[split].count < half) {
+      seen += box[split].count;
+      split++;
+    }
+    split = Math.max(1, split);
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+  }
+
+  return boxes.map(average);
+}
+
+function kMeans(histogram: WeightedColor[], maxColors: number): RGB[] {
+  // Median cut gives a deterministic, well spread starting point.
+  let centroids = medianCut(histogram.slice(), maxColors);
+
+  for (let iteration = 0; iteration < K_MEANS_ITERATIONS; iteration++) {
+    const clusters: WeightedColor[][] = centroids.map(() => []);
+    for (const color of histogram) {
+      let nearest = 0, best = Infinity;
+      centroids.forEach((centroid, index) => {
+        const dr = color.r - centroid.r, dg = color.g - centroid.g, db = color.b - centroid.b;
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < best) {
+          best = distance;
+          nearest = index;
+        }
+      });
+      clusters[nearest].push(color);
+    }
+
+    const next = clusters.map((cluster, index) => cluster.length > 0 ? average(cluster) : centroids[index]);
+    const moved = next.some((c, index) => c.r !== centroids[index].r || c.g !== centroids[index].g || c.b !== centroids[index].b);
+    centroids = next;
+    if (!moved) break;
+  }
+
+  return centroids;
+}
+
+/**
+ * Reduces the colours of an image to at most `maxColors` representatives.
+ */
+export function quantizeColors(data: Uint8ClampedArray, maxColors: number, method: QuantizeMethod): RGB[] {
+  if (maxColors < MIN_QUANTIZE_COLORS || maxColors > MAX_QUANTIZE_COLORS) {
+    throw new Error(`The color count must be between ${MIN_QUANTIZE_COLORS} and ${MAX_QUANTIZE_COLORS}.`);
+  }
+  const histogram = colorHistogram(data);
+  if (histogram.length === 0) {
+    return [];
+  }
+  return method === 'k-means' ? kMeans(histogram, maxColors) : medianCut(histogram, maxColors);
+}
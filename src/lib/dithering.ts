@@ -0,0 +1,94 @@
+export type DitheringMode = 'none' | 'floyd-steinberg' | 'atkinson' | 'bayer4' | 'bayer8';
+
+type RGB = { r: number, g: number, b: number };
+
+// [dx, dy, weight]
+const FLOYD_STEINBERG: [number, number, number][] = [
+  [1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16],
+];
+// Atkinson only spreads 6/8 of the error, which keeps highlights and shadows clean.
+const ATKINSON: [number, number, number][] = [
+  [1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8],
+];
+
+const BAYER_4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+
+function bayerMatrix(size: 4 | 8): number[][] {
+  if (size === 4) return BAYER_4;
+  // The 8x8 matrix is built recursively from the 4x4 one.
+  return Array.from({ length: 8 }, (_, y) => Array.from({ length: 8 }, (_, x) =>
+    4 * BAYER_4[y % 4][x % 4] + [[0, 2], [3, 1]][Math.floor(y / 4)][Math.floor(x / 4)]));
+}
+
+interface DitherOptions<T> {
+  width: number;
+  height: number;
+  mode: DitheringMode;
+  // Maps a color to an output value and the color that value stands for.
+  quantize: (color: RGB) => { value: T, color: RGB };
+  // Pixels below this alpha become `transparentValue` and take no error.
+  alphaThreshold?: number;
+  transparentValue?: T;
+  // How far ordered dithering may push a channel, in 0-255 units.
+  orderedSpread?: number;
+}
+
+/**
+ * Quantizes RGBA image data pixel by pixel, optionally spreading the
+ * quantization error (Floyd-Steinberg, Atkinson) or applying a Bayer threshold map.
+ */
+export function ditherImage<T>(data: Uint8ClampedArray, options: DitherOptions<T>): T[] {
+  const { width, height, mode, quantize, alphaThreshold, transparentValue, orderedSpread = 255 } = options;
+  const buffer = Float32Array.from(data);
+  const result: T[] = new Array(width * height);
+  const kernel = mode === 'floyd-steinberg' ? FLOYD_STEINBERG : mode === 'atkinson' ? ATKINSON : null;
+  const matrix = mode === 'bayer4' ? bayerMatrix(4) : mode === 'bayer8' ? bayerMatrix(8) : null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (alphaThreshold !== undefined && data[i + 3] < alphaThreshold) {
+        result[y * width + x] = transparentValue as T;
+        continue;
+      }
+
+      const color = {
+        r: Math.max(0, Math.min(255, buffer[i])),
+        g: Math.max(0, Math.min(255, buffer[i + 1])),
+        b: Math.max(0, Math.min(255, buffer[i + 2])),
+      };
+
+      if (matrix) {
+        const size = matrix.length;
+        const offset = ((matrix[y % size][x % size] + 0.5) / (size * size) - 0.5) * orderedSpread;
+        color.r = Math.max(0, Math.min(255, color.r - offset));
+        color.g = Math.max(0, Math.min(255, color.g - offset));
+        color.b = Math.max(0, Math.min(255, color.b - offset));
+      }
+
+      const { value, color: chosen } = quantize(color);
+      result[y * width + x] = value;
+
+      if (kernel) {
+        const errR = color.r - chosen.r;
+        const errG = color.g - chosen.g;
+        const errB = color.b - chosen.b;
+        for (const [dx, dy, weight] of kernel) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || nx >= width || ny >= height) continue;
+          const ni = (ny * width + nx) * 4;
+          buffer[ni] += errR * weight;
+          buffer[ni + 1] += errG * weight;
+          buffer[ni + 2] += errB * weight;
+        }
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { generateHeightmapToVox, type HeightmapToVoxInput } from './heightmap-to-vox';
+
+const input = (overrides: Partial<HeightmapToVoxInput>): HeightmapToVoxInput => {
+  const { width = 2, height = 2 } = overrides;
+  return {
+    heights: Array(width * height).fill(128),
+    width,
+    height,
+    heightUnit: 'voxels',
+    maxHeight: 8,
+    exaggeration: 1,
+    baseThickness: 1,
+    waterLevel: 0,
+    ...overrides,
+  };
+};
+
+describe('generateHeightmapToVox', () => {
+  it('rejects maps wider than a .vox model', () => {
+    expect(() => generateHeightmapToVox(input({ width: 257, height: 1 }))).toThrow();
+  });
+
+  it('rejects terrains taller than a .vox model', () => {
+    expect(() => generateHeightmapToVox(input({ heightUnit: 'blocks', maxHeight: 8, exaggeration: 4 }))).toThrow(/taller than 256/);
+  });
+
+  it('rejects terrains over the volume limit', () => {
+    expect(() => generateHeightmapToVox(input({ width: 256, height: 256, maxHeight: 64, exaggeration: 2 }))).toThrow(/more than \d+ voxels/);
+  });
+});
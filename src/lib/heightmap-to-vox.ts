@@ -0,0 +1,152 @@
+/**
+ * Builds .vox models from a grayscale heightmap.
+ * Shared by the server action and the generation worker.
+ */
+
+import { z } from 'zod';
+import type { PaletteColor, ProgressCallback, VoxGenerationResult } from './schematic-utils';
+import { MAX_VOX_SIZE } from './vox-io';
+import { VoxTransformSchema } from './vox-transform';
+import { VoxelGrid } from './voxel-grid';
+
+// A side of a .vox model holds at most 256 voxels, which also bounds the dense grid.
+export const MAX_MAP_WIDTH = MAX_VOX_SIZE;
+export const MAX_TERRAIN_HEIGHT = { voxels: 64, blocks: 8 } as const;
+export const MAX_EXAGGERATION = 4;
+// A solid terrain fills its whole box, and every voxel is listed one by one when the file
+// is written. Larger volumes run out of memory, so the box is capped well below 256³.
+export const MAX_TERRAIN_VOLUME = 256 * 256 * 64;
+
+const BLOCK_SIZE = 16;
+
+export type TerrainHeightInput = { heightUnit: 'voxels' | 'blocks', maxHeight: number, exaggeration: number, baseThickness: number };
+
+// Heights are computed in voxels; block mode snaps them to whole 16-voxel steps.
+const heightSnap = (heightUnit: TerrainHeightInput['heightUnit']) => {
+  const unit = heightUnit === 'blocks' ? BLOCK_SIZE : 1;
+  return (value: number) => Math.round(value / unit) * unit;
+};
+
+/**
+ * Height of the model for the tallest possible peak, padded to whole blocks like
+ * the footprint. Must not exceed MAX_VOX_SIZE.
+ */
+export function terrainModelHeight({ heightUnit, maxHeight, exaggeration, baseThickness }: TerrainHeightInput): number {
+  const unit = heightUnit === 'blocks' ? BLOCK_SIZE : 1;
+  const peak = baseThickness + heightSnap(heightUnit)(maxHeight * unit * exaggeration);
+  return Math.ceil(Math.max(1, peak) / BLOCK_SIZE) * BLOCK_SIZE;
+}
+
+const HeightmapToVoxInputSchema = z.object({
+  // Luminance per pixel (0-255); false marks transparent pixels outside the map.
+  heights: z.array(z.union([z.boolean(), z.number().min(0).max(255)])),
+  width: z.number().int().positive().max(MAX_MAP_WIDTH),
+  height: z.number().int().positive().max(MAX_MAP_WIDTH),
+  heightUnit: z.enum(['voxels', 'blocks']),
+  maxHeight: z.number().int().positive().max(MAX_TERRAIN_HEIGHT.voxels),
+  exaggeration: z.number().positive().max(MAX_EXAGGERATION),
+  baseThickness: z.number().int().min(0).max(64),
+  // Percentage of the maximum terrain height, 0 disables water.
+  waterLevel: z.number().min(0).max(100),
+  transform: VoxTransformSchema.optional(),
+}).refine(input => input.maxHeight <= MAX_TERRAIN_HEIGHT[input.heightUnit], {
+  message: `The maximum height is ${MAX_TERRAIN_HEIGHT.voxels} voxels or ${MAX_TERRAIN_HEIGHT.blocks} blocks.`,
+  path: ['maxHeight'],
+}).refine(input => terrainModelHeight(input) <= MAX_VOX_SIZE, {
+  message: `The terrain with its base must not be taller than ${MAX_VOX_SIZE} voxels.`,
+  path: ['exaggeration'],
+}).refine(input => input.width * input.height * terrainModelHeight(input) <= MAX_TERRAIN_VOLUME, {
+  message: `The terrain must not take more than ${MAX_TERRAIN_VOLUME} voxels.`,
+  path: ['width'],
+});
+
+export type HeightmapToVoxInput = z.infer<typeof HeightmapToVoxInputSchema>;
+
+const TERRAIN_COLOR_INDEX = 1;
+const ANCHOR_COLOR_INDEX = 2;
+const WATER_COLOR_INDEX = 3;
+const BASE_COLOR_INDEX = 4;
+
+function createSchematicData(name: string, dimensions: {width: number, height: number, depth?: number}): string {
+    const { width, height, depth } = dimensions;
+    const depthInfo = depth ? `x${depth}`: '';
+    return `Schematic: ${name} (${width}x${height}${depthInfo})`;
+}
+
+export function generateHeightmapToVox(input: HeightmapToVoxInput, onProgress?: ProgressCallback): VoxGenerationResult & { totalVoxels: number } {
+  const {
+    heights,
+    width: mapWidth,
+    height: mapDepth,
+    heightUnit,
+    maxHeight,
+    exaggeration,
+    baseThickness,
+    waterLevel,
+    transform,
+  } = HeightmapToVoxInputSchema.parse(input);
+
+  if (heights.length !== mapWidth * mapDepth) {
+    throw new Error('The heightmap size does not match its dimensions.');
+  }
+
+  const unit = heightUnit === 'blocks' ? BLOCK_SIZE : 1;
+  const snap = heightSnap(heightUnit);
+  const terrainRange = maxHeight * unit * exaggeration;
+  const waterHeight = waterLevel > 0 ? snap(terrainRange * waterLevel / 100) : 0;
+
+  const grid = new VoxelGrid(mapWidth, 1, mapDepth);
+  grid.set(0, 0, 0, ANCHOR_COLOR_INDEX);
+
+  let topHeight = 1;
+  for (let pz = 0; pz < mapDepth; pz++) {
+    onProgress?.(pz / mapDepth);
+    for (let px = 0; px < mapWidth; px++) {
+      const value = heights[pz * mapWidth + px];
+      if (typeof value !== 'number') continue;
+
+      const terrain = snap(value / 255 * terrainRange);
+      const surface = Math.max(terrain, waterHeight);
+      topHeight = Math.max(topHeight, baseThickness + surface);
+
+      for (let y = 0; y < baseThickness + surface; y++) {
+        let colorIndex = TERRAIN_COLOR_INDEX;
+        if (y < baseThickness) colorIndex = BASE_COLOR_INDEX;
+        else if (y >= baseThickness + terrain) colorIndex = WATER_COLOR_INDEX;
+        // The image's top row is the far edge of the map.
+        grid.set(px, y, mapDepth - 1 - pz, colorIndex);
+      }
+    }
+  }
+
+  // Pad the height to whole blocks, like the footprint.
+  const modelHeight = Math.ceil(topHeight / BLOCK_SIZE) * BLOCK_SIZE;
+
+  grid.resize(mapWidth, modelHeight, mapDepth);
+  // The terrain may cover the anchor corner.
+  const totalVoxels = grid.count - (grid.get(0, 0, 0) === ANCHOR_COLOR_INDEX ? 1 : 0);
+  const transformed = grid.transform(transform);
+  const { width: finalWidth, height: finalHeight, depth: finalDepth } = transformed;
+
+  const palette: PaletteColor[] = Array.from({length: 256}, () => ({r:0,g:0,b:0,a:0}));
+  palette[0] = { r: 0, g: 0, b: 0, a: 0 };
+  palette[TERRAIN_COLOR_INDEX] = { r: 110, g: 140, b: 70, a: 255 };
+  palette[ANCHOR_COLOR_INDEX] = { r: 10, g: 10, b: 10, a: 255 };
+  palette[WATER_COLOR_INDEX] = { r: 60, g: 110, b: 190, a: 255 };
+  palette[BASE_COLOR_INDEX] = { r: 120, g: 110, b: 100, a: 255 };
+
+  const voxSize = { x: finalWidth, y: finalDepth, z: finalHeight };
+
+  const buffer = transformed.toVox(palette);
+
+  return {
+      schematicData: createSchematicData('VOX Terrain', {width: finalWidth, height: finalHeight, depth: finalDepth}),
+      width: finalWidth,
+      height: finalHeight,
+      depth: finalDepth,
+      isVox: true,
+      voxData: buffer,
+      voxSize: voxSize,
+      totalVoxels,
+  };
+}
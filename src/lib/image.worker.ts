@@ -1,11 +1,11 @@
 
 /// <reference lib="webworker" />
 
-import { imageToSchematic, type ConversionMode } from './schematic-utils';
+import { imageToSchematic, type ConversionMode, type ImageConversionOptions } from './schematic-utils';
 
-self.onmessage = async (event: MessageEvent<{ file: File; threshold: number; outputWidth: number; mode: ConversionMode }>) => {
+self.onmessage = async (event: MessageEvent<{ file: File; threshold: number; outputWidth: number; mode: ConversionMode } & ImageConversionOptions>) => {
   try {
-    const { file, threshold, outputWidth, mode } = event.data;
+    const { file, threshold, outputWidth, mode, ...options } = event.data;
     
     const imageBitmap = await createImageBitmap(file);
     
@@ -27,7 +27,7 @@ self.onmessage = async (event: MessageEvent<{ file: File; threshold: number; out
     ctx.drawImage(imageBitmap, 0, 0, scaledWidth, scaledHeight);
     
     // Now generate the schematic and pixel data from the scaled canvas
-    const result = await imageToSchematic(ctx, threshold, mode);
+    const result = await imageToSchematic(ctx, threshold, mode, options);
 
     imageBitmap.close();
 
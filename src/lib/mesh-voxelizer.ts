@@ -0,0 +1,238 @@
+import type { ProgressCallback, VoxGenerationResult } from './schematic-utils';
+import { encodeVox, type VoxColor } from './vox-io';
+
+export type MeshFormat = 'obj' | 'stl';
+export type MeshFill = 'solid' | 'shell';
+export type UpAxis = 'y' | 'z';
+
+type Vec3 = [number, number, number];
+type Triangle = [Vec3, Vec3, Vec3];
+
+export interface VoxelizeOptions {
+  // The longest side of the model is fitted to this many 16-voxel blocks.
+  blocks: number;
+  fill: MeshFill;
+  // OBJ exports are usually Y-up, STL files Z-up.
+  upAxis: UpAxis;
+}
+
+const BLOCK_SIZE = 16;
+export const MAX_MESH_BLOCKS = 8;
+// How far surface samples are moved off the face (in voxels) and into the triangle.
+const SAMPLE_BIAS = 1e-3;
+
+const cross = (p: Vec3, q: Vec3): Vec3 => [p[1] * q[2] - p[2] * q[1], p[2] * q[0] - p[0] * q[2], p[0] * q[1] - p[1] * q[0]];
+const normalize = (p: Vec3): Vec3 => {
+  const length = Math.hypot(p[0], p[1], p[2]);
+  return length > 0 ? [p[0] / length, p[1] / length, p[2] / length] : [0, 0, 0];
+};
+
+export function meshFormatFromName(name: string): MeshFormat | null {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.obj')) return 'obj';
+  if (lower.endsWith('.stl')) return 'stl';
+  return null;
+}
+
+export function parseObj(text: string): Triangle[] {
+  const vertices: Vec3[] = [];
+  const triangles: Triangle[] = [];
+
+  for (const rawLine of text.split('\n')) {
+    const parts = rawLine.trim().split(/\s+/);
+    if (parts[0] === 'v') {
+      vertices.push([parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3])]);
+    } else if (parts[0] === 'f') {
+      // Faces may reference "v", "v/vt", "v//vn" or "v/vt/vn", indices can be negative.
+      const indices = parts.slice(1).map(part => {
+        const index = parseInt(part.split('/')[0], 10);
+        return index < 0 ? vertices.length + index : index - 1;
+      });
+      for (let i = 1; i < indices.length - 1; i++) {
+        const a = vertices[indices[0]], b = vertices[indices[i]], c = vertices[indices[i + 1]];
+        if (a && b && c) triangles.push([a, b, c]);
+      }
+    }
+  }
+  return triangles;
+}
+
+function parseAsciiStl(text: string): Triangle[] {
+  const triangles: Triangle[] = [];
+  const matches = text.matchAll(/vertex\s+(\S+)\s+(\S+)\s+(\S+)/g);
+  let current: Vec3[] = [];
+  for (const match of matches) {
+    current.push([parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3])]);
+    if (current.length === 3) {
+      triangles.push(current as Triangle);
+      current = [];
+    }
+  }
+  return triangles;
+}
+
+export function parseStl(data: Uint8Array): Triangle[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const triangleCount = data.byteLength >= 84 ? view.getUint32(80, true) : 0;
+
+  // Binary files have an exact size; anything else is treated as ASCII STL.
+  if (data.byteLength !== 84 + triangleCount * 50) {
+    return parseAsciiStl(new TextDecoder().decode(data));
+  }
+
+  const triangles: Triangle[] = [];
+  for (let t = 0; t < triangleCount; t++) {
+    const offset = 84 + t * 50 + 12; // Skip the normal.
+    const vertex = (i: number): Vec3 => [
+      view.getFloat32(offset + i * 12, true),
+      view.getFloat32(offset + i * 12 + 4, true),
+      view.getFloat32(offset + i * 12 + 8, true),
+    ];
+    triangles.push([vertex(0), vertex(1), vertex(2)]);
+  }
+  return triangles;
+}
+
+/**
+ * Rasterizes the triangles into a voxel grid. The surface is sampled at half-voxel
+ * steps; solid fill floods the outside and keeps everything it cannot reach.
+ */
+export function voxelizeMesh(triangles: Triangle[], options: VoxelizeOptions, onProgress?: ProgressCallback): { voxels: { x: number, y: number, z: number, i: number }[], width: number, height: number, depth: number } {
+  if (triangles.length === 0) {
+    throw new Error('The mesh does not contain any triangles.');
+  }
+
+  // Convert to model space: x - width, y - up, z - depth. Meshes are right-handed and
+  // model space is left-handed, so one axis flips in both cases to keep the model unmirrored.
+  const toModel = ([x, y, z]: Vec3): Vec3 => options.upAxis === 'z' ? [x, z, y] : [x, y, -z];
+  const modelTriangles = triangles.map(tri => tri.map(toModel) as Triangle);
+
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const tri of modelTriangles) {
+    for (const v of tri) {
+      for (let axis = 0; axis < 3; axis++) {
+        if (!Number.isFinite(v[axis])) throw new Error('The mesh contains invalid vertex coordinates.');
+        min[axis] = Math.min(min[axis], v[axis]);
+        max[axis] = Math.max(max[axis], v[axis]);
+      }
+    }
+  }
+
+  const resolution = options.blocks * BLOCK_SIZE;
+  const extent = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+  if (extent === 0) {
+    throw new Error('The mesh has no volume.');
+  }
+  const scale = resolution / extent;
+  const dims = [0, 1, 2].map(axis => Math.max(1, Math.min(resolution, Math.ceil((max[axis] - min[axis]) * scale))));
+  const [width, height, depth] = dims;
+
+  // One voxel of padding on every side keeps the outside connected for the flood fill.
+  const pw = width + 2, ph = height + 2, pd = depth + 2;
+  const index = (x: number, y: number, z: number) => (z * ph + y) * pw + x;
+  const grid = new Uint8Array(pw * ph * pd);
+
+  // Voxel coordinates of a point, before flooring.
+  const toVoxel = (p: Vec3): Vec3 => [(p[0] - min[0]) * scale, (p[1] - min[1]) * scale, (p[2] - min[2]) * scale];
+  const mark = (px: number, py: number, pz: number) => {
+    const x = Math.max(0, Math.min(width - 1, Math.floor(px)));
+    const y = Math.max(0, Math.min(height - 1, Math.floor(py)));
+    const z = Math.max(0, Math.min(depth - 1, Math.floor(pz)));
+    grid[index(x + 1, y + 1, z + 1)] = 1;
+  };
+
+  modelTriangles.forEach((triangle, t) => {
+    if (t % 1024 === 0) onProgress?.(t / modelTriangles.length * 0.9);
+    const [a, b, c] = triangle.map(toVoxel);
+    const ab: Vec3 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const ac: Vec3 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+
+    // Faces often lie exactly on a voxel boundary. Samples are taken from a slightly
+    // shrunken triangle and moved against its outward normal, so they fall into the
+    // voxel behind the face. Counter-clockwise winding faces out in the mesh; model
+    // space is mirrored, so the outward normal is ac x ab here.
+    const normal = normalize(cross(ac, ab));
+    const ox = a[0] - normal[0] * SAMPLE_BIAS, oy = a[1] - normal[1] * SAMPLE_BIAS, oz = a[2] - normal[2] * SAMPLE_BIAS;
+    const shrink = 1 - 3 * SAMPLE_BIAS;
+
+    const edge = (p: Vec3) => Math.hypot(p[0], p[1], p[2]);
+    const steps = Math.max(1, Math.ceil(Math.max(edge(ab), edge(ac), Math.hypot(ab[0] - ac[0], ab[1] - ac[1], ab[2] - ac[2])) * 2));
+    for (let i = 0; i <= steps; i++) {
+      for (let j = 0; j <= steps - i; j++) {
+        const u = SAMPLE_BIAS + i / steps * shrink, v = SAMPLE_BIAS + j / steps * shrink;
+        mark(ox + ab[0] * u + ac[0] * v, oy + ab[1] * u + ac[1] * v, oz + ab[2] * u + ac[2] * v);
+      }
+    }
+  });
+
+  if (options.fill === 'solid') {
+    const OUTSIDE = 2;
+    const queue: number[] = [0];
+    grid[0] = OUTSIDE;
+    while (queue.length > 0) {
+      const current = queue.pop()!;
+      const x = current % pw;
+      const y = Math.floor(current / pw) % ph;
+      const z = Math.floor(current / (pw * ph));
+      const neighbours: Vec3[] = [[x - 1, y, z], [x + 1, y, z], [x, y - 1, z], [x, y + 1, z], [x, y, z - 1], [x, y, z + 1]];
+      for (const [nx, ny, nz] of neighbours) {
+        if (nx < 0 || ny < 0 || nz < 0 || nx >= pw || ny >= ph || nz >= pd) continue;
+        const next = index(nx, ny, nz);
+        if (grid[next] === 0) {
+          grid[next] = OUTSIDE;
+          queue.push(next);
+        }
+      }
+    }
+    for (let i = 0; i < grid.length; i++) {
+      grid[i] = grid[i] === OUTSIDE ? 0 : 1;
+    }
+  }
+
+  const voxels: { x: number, y: number, z: number, i: number }[] = [];
+  for (let z = 0; z < depth; z++) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (grid[index(x + 1, y + 1, z + 1)]) voxels.push({ x, y, z, i: 1 });
+      }
+    }
+  }
+  return { voxels, width, height, depth };
+}
+
+export interface MeshToVoxInput extends VoxelizeOptions {
+  data: Uint8Array;
+  format: MeshFormat;
+}
+
+/**
+ * Reads an OBJ or STL file and returns it as .vox data, ready for the regular import path.
+ * Runs in the generation worker; large meshes take a while.
+ */
+export function generateMeshToVox(input: MeshToVoxInput, onProgress?: ProgressCallback): VoxGenerationResult {
+  const { data, format, ...options } = input;
+  const triangles = format === 'obj' ? parseObj(new TextDecoder().decode(data)) : parseStl(data);
+  const { voxels, width, height, depth } = voxelizeMesh(triangles, options, onProgress);
+
+  const palette: VoxColor[] = Array.from({ length: 256 }, () => ({ r: 0, g: 0, b: 0, a: 0 }));
+  palette[1] = { r: 220, g: 220, b: 220, a: 255 };
+
+  const voxSize = { x: width, y: depth, z: height };
+  const voxData = encodeVox({
+    size: voxSize,
+    voxels: voxels.map(v => ({ x: v.x, y: v.z, z: v.y, i: v.i })),
+    palette,
+  });
+
+  return {
+    schematicData: `Schematic: Mesh (${width}x${height}x${depth})`,
+    width,
+    height,
+    depth,
+    isVox: true,
+    voxData,
+    voxSize,
+    totalVoxels: voxels.length,
+  };
+}
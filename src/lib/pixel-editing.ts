@@ -0,0 +1,81 @@
+// Pixels follow SchematicOutput: booleans in B&W mode, 1-based palette indices in color mode.
+export type PixelValue = boolean | number;
+export type PixelTool = 'pencil' | 'eraser' | 'line' | 'rect' | 'fill';
+export type Point = [number, number];
+
+export interface MirrorOptions {
+  horizontal: boolean;
+  vertical: boolean;
+}
+
+// Bresenham line, both ends included.
+export function linePoints([x0, y0]: Point, [x1, y1]: Point): Point[] {
+  const points: Point[] = [];
+  const dx = Math.abs(x1 - x0), dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1, sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+  let x = x0, y = y0;
+  while (true) {
+    points.push([x, y]);
+    if (x === x1 && y === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) { err += dy; x += sx; }
+    if (e2 <= dx) { err += dx; y += sy; }
+  }
+  return points;
+}
+
+// Outline of the rectangle spanned by two corners.
+export function rectPoints([x0, y0]: Point, [x1, y1]: Point): Point[] {
+  const left = Math.min(x0, x1), right = Math.max(x0, x1);
+  const top = Math.min(y0, y1), bottom = Math.max(y0, y1);
+  return [
+    ...linePoints([left, top], [right, top]),
+    ...linePoints([left, bottom], [right, bottom]),
+    ...linePoints([left, top], [left, bottom]),
+    ...linePoints([right, top], [right, bottom]),
+  ];
+}
+
+// The point plus its reflections across the enabled symmetry axes.
+export function mirrorPoint([x, y]: Point, width: number, height: number, mirror: MirrorOptions): Point[] {
+  const points: Point[] = [[x, y]];
+  if (mirror.horizontal) points.push([width - 1 - x, y]);
+  if (mirror.vertical) points.push([x, height - 1 - y]);
+  if (mirror.horizontal && mirror.vertical) points.push([width - 1 - x, height - 1 - y]);
+  return points;
+}
+
+/**
+ * Sets the points (and their mirrored copies) to value. Mutates pixels.
+ */
+export function paintPoints(pixels: PixelValue[], width: number, height: number, points: Point[], value: PixelValue, mirror: MirrorOptions): void {
+  for (const point of points) {
+    for (const [x, y] of mirrorPoint(point, width, height, mirror)) {
+      if (x >= 0 && y >= 0 && x < width && y < height) {
+        pixels[y * width + x] = value;
+      }
+    }
+  }
+}
+
+/**
+ * 4-connected flood fill of the region holding the start pixel's value. Mutates pixels.
+ */
+export function floodFill(pixels: PixelValue[], width: number, height: number, [startX, startY]: Point, value: PixelValue): void {
+  if (startX < 0 || startY < 0 || startX >= width || startY >= height) return;
+  const target = pixels[startY * width + startX];
+  if (target === value) return;
+
+  const stack: number[] = [startY * width + startX];
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    if (pixels[index] !== target) continue;
+    pixels[index] = value;
+    const x = index % width;
+    if (x > 0) stack.push(index - 1);
+    if (x < width - 1) stack.push(index + 1);
+    if (index >= width) stack.push(index - width);
+    if (index < width * (height - 1)) stack.push(index + width);
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Builds .vox models from pixel art (a boolean pixel array,
+ * palette indices in color mode, or luminance values for the relief mode).
+ * Shared by the server action and the generation worker.
+ */
+
+import { z } from 'zod';
+import type { PaletteColor, ProgressCallback, VoxGenerationResult } from './schematic-utils';
+import { ORIENTATION_TRANSFORMS, VoxTransformSchema } from './vox-transform';
+import { VoxelGrid } from './voxel-grid';
+
+const PixelArtToVoxInputSchema = z.object({
+  pixels: z.array(z.union([z.boolean(), z.number().int().min(0)])),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  colorMode: z.enum(['bw', 'color']).optional(),
+  palette: z.array(z.object({
+    r: z.number().int().min(0).max(255),
+    g: z.number().int().min(0).max(255),
+    b: z.number().int().min(0).max(255),
+    a: z.number().int().min(0).max(255),
+    name: z.string().optional(),
+    code: z.string().optional(),
+  })).optional(),
+  mode: z.enum(['extrude', 'engrave', 'relief']),
+  extrudeDepth: z.number().int().positive(),
+  engraveBackgroundDepth: z.number().int().min(0),
+  engraveDepth: z.number().int().min(0),
+  reliefMinDepth: z.number().int().positive().optional(),
+  reliefMaxDepth: z.number().int().positive().optional(),
+  reliefInvert: z.boolean().optional(),
+  reliefSmoothing: z.number().int().min(0).max(8).optional(),
+  stickerMode: z.boolean(),
+  orientation: z.enum(['horizontal', 'vertical-lr']),
+  transform: VoxTransformSchema.optional(),
+});
+
+export type PixelArtToVoxInput = z.infer<typeof PixelArtToVoxInputSchema>;
+
+// Image palette index n is written as .vox index n + 2, after the main and anchor colors.
+const COLOR_INDEX_OFFSET = 2;
+const MAX_IMAGE_COLORS = 255 - COLOR_INDEX_OFFSET;
+
+/**
+ * Box blur over the luminance grid. Transparent pixels (false) stay transparent
+ * and are left out of their neighbours' averages.
+ */
+function smoothLuminance(pixels: (boolean | number)[], width: number, height: number, radius: number): (number | null)[] {
+  const values = pixels.map(p => typeof p === 'number' ? p : null);
+  if (radius === 0) return values;
+
+  return values.map((value, index) => {
+    if (value === null) return null;
+    const px = index % width;
+    const py = Math.floor(index / width);
+    let sum = 0, count = 0;
+    for (let y = Math.max(0, py - radius); y <= Math.min(height - 1, py + radius); y++) {
+      for (let x = Math.max(0, px - radius); x <= Math.min(width - 1, px + radius); x++) {
+        const neighbour = values[y * width + x];
+        if (neighbour !== null) {
+          sum += neighbour;
+          count++;
+        }
+      }
+    }
+    return sum / count;
+  });
+}
+
+function createSchematicData(name: string, dimensions: {width: number, height: number, depth?: number}): string {
+    const { width, height, depth } = dimensions;
+    const depthInfo = depth ? `x${depth}`: '';
+    return `Schematic: ${name} (${width}x${height}${depthInfo})`;
+}
+
+export function generatePixelArtToVox(input: PixelArtToVoxInput, onProgress?: ProgressCallback): VoxGenerationResult {
+  const { 
+    pixels, 
+    width: imageWidth, 
+    height: imageHeight, 
+    colorMode = 'bw',
+    palette: imagePalette = [],
+    mode, 
+    extrudeDepth, 
+    engraveBackgroundDepth, 
+    engraveDepth,
+    reliefMinDepth = 1,
+    reliefMaxDepth = 16,
+    reliefInvert = false,
+    reliefSmoothing = 0,
+    stickerMode,
+    orientation,
+    transform,
+  } = PixelArtToVoxInputSchema.parse(input);
+
+  if (colorMode === 'color' && imagePalette.length === 0) {
+    throw new Error('Color mode requires a palette.');
+  }
+  if (mode === 'relief' && reliefMinDepth > reliefMaxDepth) {
+    throw new Error('The minimum relief depth cannot exceed the maximum depth.');
+  }
+  if (imagePalette.length > MAX_IMAGE_COLORS) {
+    throw new Error(`Too many colors: ${imagePalette.length}. The maximum is ${MAX_IMAGE_COLORS}.`);
+  }
+
+  // .vox palette index for a pixel, 0 when the pixel is empty.
+  const colorAt = (px: number, py: number): number => {
+    const value = pixels[py * imageWidth + px];
+    if (colorMode === 'color') {
+      return typeof value === 'number' && value > 0 && value <= imagePalette.length ? value + COLOR_INDEX_OFFSET : 0;
+    }
+    return value === true ? 1 : 0;
+  };
+
+  const grid = new VoxelGrid();
+  
+  const addVoxel = (px: number, py: number, pz: number, colorIndex = 1) => {
+    grid.set(px, py, pz, colorIndex);
+  };
+  addVoxel(0,0,0,2);
+  
+  let modelWidth = imageWidth;
+  let modelHeight = imageHeight;
+  let modelDepth = 0;
+
+  const STICKER_BLOCK_DEPTH = 16;
+  
+  if (mode === 'extrude') {
+    modelDepth = extrudeDepth;
+    const zOffset = stickerMode ? STICKER_BLOCK_DEPTH - extrudeDepth : 0;
+    
+    for (let py = 0; py < imageHeight; py++) {
+      onProgress?.(py / imageHeight);
+      for (let px = 0; px < imageWidth; px++) {
+        const color = colorAt(px, py);
+        if (color) {
+          for (let pz = 0; pz < extrudeDepth; pz++) {
+             addVoxel(px, imageHeight - 1 - py, pz + zOffset, color);
+          }
+        }
+      }
+    }
+     if (stickerMode) modelDepth = STICKER_BLOCK_DEPTH;
+
+  } else if (mode === 'engrave') {
+    modelDepth = engraveBackgroundDepth;
+    const zOffset = stickerMode ? STICKER_BLOCK_DEPTH - engraveBackgroundDepth : 0;
+    
+    for (let py = 0; py < imageHeight; py++) {
+      onProgress?.(py / imageHeight);
+      for (let px = 0; px < imageWidth; px++) {
+        const color = colorAt(px, py);
+        const isPixelSet = color > 0;
+        const endDepth = isPixelSet ? engraveBackgroundDepth - engraveDepth : engraveBackgroundDepth;
+
+        // The engraved floor keeps the pixel's color, the background uses the main color.
+        for (let pz = 0; pz < endDepth; pz++) {
+            addVoxel(px, imageHeight - 1 - py, pz + zOffset, isPixelSet ? color : 1);
+        }
+      }
+    }
+     if (stickerMode) modelDepth = STICKER_BLOCK_DEPTH;
+  } else if (mode === 'relief') {
+    // Bright pixels stand out the most unless inverted.
+    modelDepth = reliefMaxDepth;
+    const zOffset = stickerMode ? Math.max(0, STICKER_BLOCK_DEPTH - reliefMaxDepth) : 0;
+    const luminance = smoothLuminance(pixels, imageWidth, imageHeight, reliefSmoothing);
+
+    for (let py = 0; py < imageHeight; py++) {
+      onProgress?.(py / imageHeight);
+      for (let px = 0; px < imageWidth; px++) {
+        const value = luminance[py * imageWidth + px];
+        if (value === null) continue;
+
+        const level = (reliefInvert ? 255 - value : value) / 255;
+        const columnDepth = Math.round(reliefMinDepth + level * (reliefMaxDepth - reliefMinDepth));
+        for (let pz = 0; pz < columnDepth; pz++) {
+            addVoxel(px, imageHeight - 1 - py, pz + zOffset);
+        }
+      }
+    }
+     if (stickerMode) modelDepth = Math.max(STICKER_BLOCK_DEPTH, reliefMaxDepth);
+  }
+
+  grid.resize(modelWidth, modelHeight, modelDepth);
+  const transformed = grid.transform(ORIENTATION_TRANSFORMS[orientation]).transform(transform);
+  const finalWidth = transformed.width;
+  const finalHeight = transformed.height;
+  const finalDepth = transformed.depth;
+ 
+  const palette: PaletteColor[] = Array.from({length: 256}, () => ({r:0,g:0,b:0,a:0}));
+  palette[0] = { r: 0, g: 0, b: 0, a: 0 };
+  palette[1] = { r: 200, g: 164, b: 100, a: 255 }; // Main color
+  palette[2] = { r: 10, g: 10, b: 10, a: 255 }; // Anchor color
+  imagePalette.forEach((color, index) => {
+    palette[index + 1 + COLOR_INDEX_OFFSET] = { r: color.r, g: color.g, b: color.b, a: 255, name: color.name, code: color.code };
+  });
+
+  const voxSize = { x: finalWidth, y: finalDepth, z: finalHeight };
+
+  const buffer = transformed.toVox(palette);
+  
+  return {
+      schematicData: createSchematicData('VOX PixelArt', {width: finalWidth, height: finalHeight, depth: finalDepth}),
+      width: finalWidth,
+      height: finalHeight,
+      depth: finalDepth,
+      isVox: true,
+      voxData: buffer,
+      voxSize: voxSize,
+      voxPalette: colorMode === 'color' ? palette : undefined,
+  };
+}
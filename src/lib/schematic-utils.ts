@@ -1,7 +1,11 @@
 
 
-import type { ConversionMode } from './schematic-utils';
-const writeVox = require('vox-saver');
+import type { VoxTransform } from './vox-transform';
+import { findNearestBlock, VS_BLOCK_PALETTE, type BlockColor } from './vs-palette';
+import { quantizeColors, type QuantizeMethod } from './color-quantize';
+import { ditherImage, type DitheringMode } from './dithering';
+import { VoxelGrid, type Voxel } from './voxel-grid';
+import { getVoxShape, type GeneratedShape, type PluginShape } from './vox-shapes';
 
 
 export interface PaletteColor {
@@ -9,6 +13,9 @@ export interface PaletteColor {
     g: number;
     b: number;
     a: number;
+    // Set when the colour comes from the block palette.
+    name?: string;
+    code?: string;
 }
 
 export interface SchematicOutput {
@@ -24,51 +31,54 @@ export interface SchematicOutput {
   originalHeight?: number;
   voxSize?: {x: number, y: number, z: number};
   totalVoxels?: number;
+  // .vox palette with the block codes of colours that come from the block palette.
+  voxPalette?: PaletteColor[];
+}
+
+/**
+ * What the .vox generators return. The server actions send voxData as base64,
+ * the generation worker transfers the bytes as they are.
+ */
+export interface VoxGenerationResult {
+  schematicData: string;
+  width: number;
+  height: number;
+  depth: number;
+  isVox: true;
+  voxData: Uint8Array;
+  voxSize: {x: number, y: number, z: number};
+  totalVoxels?: number;
+  voxPalette?: PaletteColor[];
+}
+
+// Reports generation progress from 0 to 1.
+export type ProgressCallback = (progress: number) => void;
+
+// 'grayscale' keeps each pixel's luminance (0-255), transparent pixels become false.
+export type ConversionMode = 'bw' | 'color' | 'grayscale';
+
+export interface ImageConversionOptions {
+  blockPalette?: BlockColor[];
+  // Limits color mode to this many blocks; unlimited when omitted.
+  maxColors?: number;
+  quantizer?: QuantizeMethod;
+  dithering?: DitheringMode;
 }
 
 export type FontStyle = 'monospace' | 'serif' | 'sans-serif' | 'custom' | 'metalfont';
 export type Shape = 'circle' | 'triangle' | 'rhombus' | 'hexagon';
 export type TextOrientation = 'horizontal' | 'vertical-lr';
 
-type HemispherePart = `hemisphere-${'top' | 'bottom' | 'vertical'}`;
-type DiskOrientation = 'horizontal' | 'vertical';
-type RingOrientation = 'horizontal' | 'vertical-up' | 'vertical-down';
-type ArchType = 'rectangular' | 'rounded' | 'circular';
-type CircularArchOrientation = 'top' | 'bottom';
-type ColumnStyle = 'simple' | 'decorative';
-
-type ArchRectangular = { archType: 'rectangular', width: number, height: number, depth: number, outerCornerRadius?: 0 };
-type ArchRounded = { archType: 'rounded', width: number, height: number, depth: number, outerCornerRadius: number };
-type ArchCircular = { archType: 'circular', width: number, thickness: number, depth: number, orientation: CircularArchOrientation };
-
-
-export type VoxShape = 
-    | { type: 'cuboid', width: number, height: number, depth: number }
-    | { type: 'sphere', radius: number, part?: 'full' | HemispherePart, carveMode?: boolean, hollow?: boolean, thickness?: number }
-    | { type: 'pyramid', base: number, height: number }
-    | { type: 'cone', radius: number, height: number }
-    | { 
-        type: 'column', 
-        radius: number, 
-        height: number,
-        withBase?: boolean,
-        withCapital?: boolean,
-        baseRadius?: number,
-        baseHeight?: number,
-        baseStyle?: ColumnStyle,
-        brokenTop?: boolean,
-        withDebris?: boolean,
-        debrisLength?: number,
-        breakAngleX?: number,
-        breakAngleZ?: number,
-      }
-    | ({ type: 'arch' } & (ArchRectangular | ArchRounded | ArchCircular))
-    | { type: 'disk', radius: number, height: number, part?: 'full' | 'half', orientation: DiskOrientation }
-    | { type: 'ring', radius: number, thickness: number, height: number, part?: 'full' | 'half', orientation: RingOrientation }
-    | { type: 'qrcode', pixels: boolean[], size: number, depth: number, withBackdrop?: boolean, backdropDepth?: number, stickerMode?: boolean }
-    | { type: 'checkerboard', width: number, length: number, height: number }
-    | { type: 'haystack', radius: number, height: number }
-    | { type: 'corner', radius: number, height: number, external: boolean, internal: boolean };
+export type CsgOperation = 'union' | 'subtract' | 'intersect';
+
+export interface CompositePart {
+    shape: VoxShape;
+    offset: { x: number, y: number, z: number };
+    operation: CsgOperation;
+}
+
+// A shape as it is sent to the generator: one registered shape or a composition of them.
+export type VoxShape = PluginShape | { type: 'composite', parts: CompositePart[] };
 
 
 // A simple helper to generate schematic data string
@@ -92,7 +102,6 @@ interface RasterizeTextParams {
   outline?: boolean;
   outlineGap?: number;
   outlineWidth?: number;
-  orientation?: TextOrientation;
   maxWidth?: number;
 }
 
@@ -104,7 +113,6 @@ export async function rasterizeText({
   outline = false,
   outlineGap = 1,
   outlineWidth = 1,
-  orientation = 'horizontal',
   maxWidth,
 }: RasterizeTextParams): Promise<{ pixels: boolean[], width: number, height: number }> {
     if (typeof document === 'undefined' || !text || !text.trim()) {
@@ -272,20 +280,6 @@ export async function rasterizeText({
         }
     }
 
-    if (orientation === 'vertical-lr') {
-        const rotatedPixels = Array(croppedWidth * croppedHeight).fill(false);
-        const rotatedWidth = croppedHeight;
-        const rotatedHeight = croppedWidth;
-        for (let y = 0; y < croppedHeight; y++) {
-            for (let x = 0; x < croppedWidth; x++) {
-                if (croppedPixels[y * croppedWidth + x]) {
-                    rotatedPixels[x * rotatedWidth + (rotatedWidth - 1 - y)] = true;
-                }
-            }
-        }
-        return { pixels: rotatedPixels, width: rotatedWidth, height: rotatedHeight };
-    }
-
     return { pixels: croppedPixels, width: croppedWidth, height: croppedHeight };
 }
 
@@ -671,7 +665,7 @@ export function shapeToSchematic(shape:
  * Converts an image from a canvas context to a pixel-based schematic.
  * This is designed to work with OffscreenCanvas in a Web Worker.
  */
-export async function imageToSchematic(ctx: OffscreenCanvasRenderingContext2D, threshold: number, mode: ConversionMode): Promise<Omit<SchematicOutput, 'depth'>> {
+export async function imageToSchematic(ctx: OffscreenCanvasRenderingContext2D, threshold: number, mode: ConversionMode, options: ImageConversionOptions = {}): Promise<Omit<SchematicOutput, 'depth'>> {
     const { canvas } = ctx;
     const { width: contentWidth, height: contentHeight } = canvas;
     
@@ -697,44 +691,64 @@ export async function imageToSchematic(ctx: OffscreenCanvasRenderingContext2D, t
     try {
         const imageData = finalCtx.getImageData(0, 0, finalWidth, finalHeight);
         const data = imageData.data;
-        const pixels: (boolean | number)[] = [];
+        const { dithering = 'none' } = options;
         
         if (mode === 'bw') {
+            const black = { r: 0, g: 0, b: 0 };
+            const white = { r: 255, g: 255, b: 255 };
+            const pixels = ditherImage(data, {
+                width: finalWidth,
+                height: finalHeight,
+                mode: dithering,
+                // Ordered dithering moves the threshold around the chosen value.
+                quantize: ({ r, g, b }) => grayscale(r, g, b) < threshold
+                    ? { value: true, color: black }
+                    : { value: false, color: white },
+            });
+            return { schematicData, width: finalWidth, height: finalHeight, pixels, originalWidth: contentWidth, originalHeight: contentHeight };
+
+        } else if (mode === 'grayscale') {
+            const pixels: (boolean | number)[] = [];
             for (let i = 0; i < data.length; i += 4) {
-                const r = data[i];
-                const g = data[i + 1];
-                const b = data[i + 2];
-                pixels.push(grayscale(r, g, b) < threshold);
+                pixels.push(data[i + 3] < 128 ? false : Math.round(grayscale(data[i], data[i + 1], data[i + 2])));
             }
             return { schematicData, width: finalWidth, height: finalHeight, pixels, originalWidth: contentWidth, originalHeight: contentHeight };
 
         } else { // mode === 'color'
+            const { maxColors, quantizer = 'median-cut' } = options;
+            let blockPalette = options.blockPalette ?? VS_BLOCK_PALETTE;
+            if (!blockPalette.some(block => block.enabled !== false)) {
+                throw new Error('The block palette has no enabled blocks.');
+            }
+
+            if (maxColors) {
+                // Pick the blocks closest to the image's representative colors, then map every pixel to those only.
+                const chosen = new Set(quantizeColors(data, maxColors, quantizer).map(color => findNearestBlock(color, blockPalette)));
+                blockPalette = blockPalette.map((block, index) => ({ ...block, enabled: chosen.has(index) }));
+            }
+
+            // Every opaque pixel is snapped to the nearest block colour.
             const palette: PaletteColor[] = [];
-            const colorMap = new Map<string, number>();
+            const colorMap = new Map<number, number>();
             let colorIndex = 1; // Start with 1, 0 is for transparent
 
-            for (let i = 0; i < data.length; i += 4) {
-                const r = data[i];
-                const g = data[i + 1];
-                const b = data[i + 2];
-                const a = data[i + 3];
-
-                if (a < 128) {
-                    pixels.push(0); // Transparent
-                    continue;
-                }
-                
-                const colorKey = `${r},${g},${b},${a}`;
-
-                if (colorMap.has(colorKey)) {
-                    pixels.push(colorMap.get(colorKey)!);
-                } else {
-                    const newIndex = colorIndex++;
-                    colorMap.set(colorKey, newIndex);
-                    palette.push({ r, g, b, a });
-                    pixels.push(newIndex);
-                }
-            }
+            const pixels = ditherImage<number>(data, {
+                width: finalWidth,
+                height: finalHeight,
+                mode: dithering,
+                alphaThreshold: 128,
+                transparentValue: 0,
+                orderedSpread: 64,
+                quantize: (color) => {
+                    const blockIndex = findNearestBlock(color, blockPalette);
+                    const block = blockPalette[blockIndex];
+                    if (!colorMap.has(blockIndex)) {
+                        colorMap.set(blockIndex, colorIndex++);
+                        palette.push({ r: block.r, g: block.g, b: block.b, a: 255, name: block.name, code: block.code });
+                    }
+                    return { value: colorMap.get(blockIndex)!, color: block };
+                },
+            });
              return { schematicData, width: finalWidth, height: finalHeight, pixels, palette, originalWidth: contentWidth, originalHeight: contentHeight };
         }
 
@@ -743,636 +757,91 @@ export async function imageToSchematic(ctx: OffscreenCanvasRenderingContext2D, t
     }
 }
 
-const generateCylinder = (
-    radius: number, 
-    height: number, 
-) => {
-    const voxels: {x: number, y: number, z: number}[] = [];
-    const rSq = radius * radius;
-    for (let y = 0; y < height; y++) {
-        for (let z = 0; z < radius * 2; z++) {
-            for (let x = 0; x < radius * 2; x++) {
-                const dx = x - (radius - 0.5);
-                const dz = z - (radius - 0.5);
-                if (dx * dx + dz * dz <= rSq) {
-                    voxels.push({x: x, y: y, z: z});
-                }
-            }
-        }
-    }
-    return voxels;
-};
-
-const generateDecorativeCylinder = (baseRadius: number, baseHeight: number) => {
-    const voxels: { x: number; y: number; z: number }[] = [];
-    const mainHeight = Math.max(1, baseHeight - 2);
-    const flareHeight = 1;
-
-    // Bottom Flare
-    const bottomFlareVoxels = generateCylinder(baseRadius, flareHeight);
-    bottomFlareVoxels.forEach(v => voxels.push({ x: v.x, y: v.y, z: v.z }));
-
-    // Main Part
-    const mainRadius = Math.max(1, baseRadius - 1);
-    const mainVoxels = generateCylinder(mainRadius, mainHeight);
-    const mainOffset = Math.floor((baseRadius*2 - mainRadius*2) / 2);
-    mainVoxels.forEach(v => voxels.push({ x: v.x + mainOffset, y: v.y + flareHeight, z: v.z + mainOffset }));
-    
-    // Top Flare
-    const topFlareVoxels = generateCylinder(baseRadius, flareHeight);
-    topFlareVoxels.forEach(v => voxels.push({ x: v.x, y: v.y + mainHeight + flareHeight, z: v.z }));
-
-    return voxels;
-};
+// Thrown as the error message when nothing is left of a composition; the shape tab translates it.
+export const EMPTY_COMPOSITION_ERROR = 'EMPTY_COMPOSITION';
 
 /**
- * Generates a .vox file for a given 3D shape using the vox-saver library.
+ * Combines several shapes into one voxel set. Parts are applied in order; the first part is always
+ * the base. The result is shifted so the bounding box of the composition starts at the origin.
  */
-export function voxToSchematic(shape: VoxShape): SchematicOutput {
-    let xyziValues: {x: number, y: number, z: number, i: number}[] = [];
-    let width: number, height: number, depth: number;
-    let name = `VOX Shape: ${shape.type}`;
-    let totalVoxels = 0;
-    
-    const addVoxel = (x: number, y: number, z: number, i = 1) => {
-        xyziValues.push({ x: Math.round(x), y: Math.round(y), z: Math.round(z), i });
-    };
-    addVoxel(0,0,0,2); 
-
-    switch (shape.type) {
-        case 'cuboid':
-            width = shape.width;
-            height = shape.height;
-            depth = shape.depth;
-            for (let y = 0; y < height; y++) {
-                for (let z = 0; z < depth; z++) {
-                    for (let x = 0; x < width; x++) {
-                        addVoxel(x, y, z);
-                    }
-                }
-            }
-            break;
-
-        case 'sphere': {
-            const { radius, part = 'full', carveMode = false, hollow = false, thickness = 1 } = shape;
-            const sphereDiameter = radius * 2;
-            const center = (sphereDiameter - 1) / 2.0;
-
-            if (carveMode && part.startsWith('hemisphere')) {
-                let gridW: number, gridH: number, gridD: number;
-                 if (part === 'hemisphere-vertical') {
-                    gridW = radius;
-                    gridH = sphereDiameter;
-                    gridD = sphereDiameter;
-                } else { // top or bottom
-                    gridW = sphereDiameter;
-                    gridH = radius;
-                    gridD = sphereDiameter;
-                }
-                width = gridW; height = gridH; depth = gridD;
-                
-                const allVoxels: {x: number, y: number, z: number, i: number}[] = [];
-                // Create solid block first
-                for (let y = 0; y < height; y++) {
-                    for (let z = 0; z < depth; z++) {
-                        for (let x = 0; x < width; x++) {
-                             allVoxels.push({x: x, y: y, z: z, i:1});
-                        }
-                    }
-                }
-                
-                const carveCenterY = part === 'hemisphere-bottom' ? -0.5 : radius - 0.5;
-                const voxelsToRemove = new Set<string>();
-
-                for (let y = 0; y < (part === 'hemisphere-vertical' ? sphereDiameter : radius) ; y++) {
-                    for (let z = 0; z < sphereDiameter; z++) {
-                        for (let x = 0; x < (part === 'hemisphere-vertical' ? sphereDiameter : radius); x++) {
-                            
-                            let dx: number, dy: number, dz: number;
-
-                             if (part === 'hemisphere-vertical') {
-                                dx = x;
-                                dy = y - center;
-                                dz = z - center;
-                            } else { 
-                                dx = x - center;
-                                dy = y - carveCenterY;
-                                dz = z - center;
-                            }
-                            
-                            const distSq = dx * dx + dy * dy + dz * dz;
-
-                            if (distSq <= radius * radius) {
-                               let finalX, finalY, finalZ;
-                                if (part === 'hemisphere-vertical') {
-                                    finalX = x; finalY = y; finalZ = z;
-                                } else if (part === 'hemisphere-top') {
-                                    finalX = x; finalY = y; finalZ = z;
-                                } else { // bottom
-                                    finalX = x; finalY = y; finalZ = z;
-                                }
-                               voxelsToRemove.add(`${finalX},${finalY},${finalZ}`);
-                            }
-                        }
-                    }
-                }
-                xyziValues.push(...allVoxels.filter(v => !voxelsToRemove.has(`${v.x},${v.y},${v.z}`)));
-
-            } else if (hollow && part.startsWith('hemisphere')) {
-                width = depth = sphereDiameter;
-                height = radius; // The height of the dome is just the radius
-                const innerRadius = radius - thickness;
-                const innerRadiusSq = innerRadius * innerRadius;
-                const outerRadiusSq = radius * radius;
-
-                for (let y = 0; y < height; y++) {
-                    for (let z = 0; z < depth; z++) {
-                        for (let x = 0; x < width; x++) {
-                            const dx = x - center;
-                            const dz = z - center;
-                            
-                            let dy;
-                            if (part === 'hemisphere-top') {
-                                dy = y;
-                            } else if (part === 'hemisphere-bottom') {
-                                dy = (height - 1 - y);
-                            } else { // vertical, not a dome, handled below
-                                dy = y - center;
-                            }
-                             
-                            const distSq = dx * dx + dy * dy + dz * dz;
-
-                            if (distSq <= outerRadiusSq && distSq > innerRadiusSq) {
-                                addVoxel(x, y, z);
-                            }
-                        }
-                    }
-                }
-                if (part === 'hemisphere-vertical') { // Non-dome hollow hemisphere
-                     width = radius; height = sphereDiameter; depth = sphereDiameter;
-                     xyziValues = []; // Clear and recalculate
-                     addVoxel(0,0,0,2);
-                     for (let y = 0; y < height; y++) {
-                        for (let z = 0; z < depth; z++) {
-                            for (let x = 0; x < width; x++) {
-                                const dx = x;
-                                const dy = y - center;
-                                const dz = z - center;
-                                const distSq = dx * dx + dy * dy + dz * dz;
-                                if (distSq <= outerRadiusSq && distSq > innerRadiusSq) {
-                                    addVoxel(x, y, z);
-                                }
-                            }
-                        }
-                     }
-                }
-            } else {
-                 width = height = depth = sphereDiameter;
-                 for (let y = 0; y < height; y++) {
-                    for (let z = 0; z < depth; z++) {
-                        for (let x = 0; x < width; x++) {
-                            const dx = x - center;
-                            const dy = y - center;
-                            const dz = z - center;
-                            const distSq = dx * dx + dy * dy + dz * dz;
-                            
-                            if (distSq <= radius * radius) {
-                                if (part === 'full') {
-                                    addVoxel(x, y, z);
-                                } else if (part === 'hemisphere-top' && y >= center) {
-                                    addVoxel(x, y, z);
-                                } else if (part === 'hemisphere-bottom' && y < center) {
-                                    addVoxel(x, y, z);
-                                } else if (part === 'hemisphere-vertical' && x < center) {
-                                    addVoxel(x, y, z);
-                                }
-                            }
-                        }
-                    }
-                }
-            }
-            break;
-        }
-            
-        case 'pyramid':
-            width = depth = shape.base;
-            height = shape.height;
-            for (let y = 0; y < height; y++) {
-                const ratio = (height > 1) ? (height - 1 - y) / (height - 1) : 1;
-                const levelWidth = Math.max(1, Math.round(width * ratio));
-                const offset = Math.floor((width - levelWidth) / 2);
-                for (let z = offset; z < offset + levelWidth; z++) {
-                    for (let x = offset; x < offset + levelWidth; x++) {
-                        addVoxel(x, y, z);
-                    }
-                }
-            }
-            break;
-        
-        case 'column': {
-            const { radius: colRadius, height: totalHeight, withBase = false, brokenTop = false, baseStyle = 'simple' } = shape;
-            const withCapital = brokenTop ? false : (shape.withCapital ?? false);
-            const debrisLength = shape.debrisLength ?? 0;
-            const baseRadius = shape.baseRadius || Math.round(colRadius * 1.25);
-            const baseHeight = shape.baseHeight || Math.max(1, Math.round(colRadius * 0.5));
-            const mainColWidth = Math.max(colRadius, baseRadius) * 2;
-        
-            let mainColumnVoxels: {x: number, y: number, z: number}[] = [];
-            const finalBaseH = withBase ? baseHeight : 0;
-            const finalCapitalH = withCapital ? baseHeight : 0;
-            const shaftHeight = totalHeight - finalBaseH - finalCapitalH;
-            
-            const partGenerator = baseStyle === 'decorative' ? generateDecorativeCylinder : generateCylinder;
-
-            if (withBase) {
-                const baseVoxels = partGenerator(baseRadius, finalBaseH);
-                const baseOffset = Math.floor((mainColWidth - baseRadius*2) / 2);
-                baseVoxels.forEach(v => mainColumnVoxels.push({ x: v.x + baseOffset, y: v.y, z: v.z + baseOffset }));
-            }
-        
-            const shaftVoxels = generateCylinder(colRadius, shaftHeight);
-            const shaftOffset = Math.floor((mainColWidth - colRadius*2) / 2);
-            shaftVoxels.forEach(v => mainColumnVoxels.push({ x: v.x + shaftOffset, y: v.y + finalBaseH, z: v.z + shaftOffset }));
-        
-            if (withCapital) {
-                const capitalVoxels = partGenerator(baseRadius, finalCapitalH);
-                const capitalOffset = Math.floor((mainColWidth - baseRadius*2) / 2);
-                capitalVoxels.forEach(v => mainColumnVoxels.push({ x: v.x + capitalOffset, y: v.y + totalHeight - finalCapitalH, z: v.z + capitalOffset }));
-            }
-        
-            if (brokenTop) {
-                const breakAngleX = shape.breakAngleX ?? 0;
-                const breakAngleZ = shape.breakAngleZ ?? 0;
-                const tanX = Math.tan(breakAngleX * Math.PI / 180);
-                const tanZ = Math.tan(breakAngleZ * Math.PI / 180);
-                const breakPlaneYIntercept = totalHeight;
-                const centerOffset = mainColWidth / 2 - 0.5;
-        
-                mainColumnVoxels = mainColumnVoxels.filter(v => {
-                    const breakPlaneY = breakPlaneYIntercept - ((v.x - centerOffset) * tanX + (v.z - centerOffset) * tanZ);
-                    return v.y < breakPlaneY;
-                });
-            }
-        
-            xyziValues.push(...mainColumnVoxels.map(v => ({...v, i: 1})));
-        
-            if (brokenTop && shape.withDebris && debrisLength > 0) {
-                 const debrisVoxels = generateCylinder(colRadius, debrisLength);
-                 const breakAngleX = shape.breakAngleX ?? 0;
-                 const breakAngleZ = shape.breakAngleZ ?? 0;
-                 const tanX = Math.tan(breakAngleX * Math.PI / 180);
-                 const tanZ = Math.tan(breakAngleZ * Math.PI / 180);
-                 const centerOffset = colRadius - 0.5;
-
-                 const finalDebris = debrisVoxels.filter(v => {
-                    const breakPlaneY = -((v.x - centerOffset) * tanX + (v.z - centerOffset) * tanZ);
-                    return v.y >= breakPlaneY;
-                 });
-
-                let rotatedDebris: {x:number, y:number, z:number}[] = finalDebris.map(v => ({ x: v.y, y: v.x, z: v.z }));
-                
-                let minRotatedY = Infinity;
-                if (rotatedDebris.length > 0) {
-                   rotatedDebris.forEach(v => { minRotatedY = Math.min(minRotatedY, v.y); });
-                } else {
-                   minRotatedY = 0;
-                }
-                
-                const debrisXOffset = mainColWidth + 4;
-                rotatedDebris.forEach(v => {
-                    addVoxel(debrisXOffset + v.x, v.y - minRotatedY, v.z, 1);
-                });
-            }
-
-            width = mainColWidth + (shape.withDebris && brokenTop ? (debrisLength) + 4 : 0);
-            depth = mainColWidth;
-            height = totalHeight;
-        
-            break;
-        }
-
-
-        case 'cone':
-            width = depth = shape.radius * 2;
-            height = shape.height;
-            const coneCenter = (width - 1) / 2.0;
-            for (let y = 0; y < height; y++) {
-                const ratio = (height > 1) ? (height - 1 - y) / (height - 1) : 0;
-                const currentRadius = shape.radius * ratio;
-                for (let z = 0; z < depth; z++) {
-                    for (let x = 0; x < width; x++) {
-                        const dx = x - coneCenter;
-                        const dz = z - coneCenter;
-                        if (dx * dx + dz * dz <= currentRadius * currentRadius) {
-                            addVoxel(x, y, z);
-                        }
-                    }
-                }
-            }
-            break;
-        
-        case 'arch': {
-             depth = shape.depth;
-             if (shape.archType === 'circular') {
-                width = shape.width;
-                const outerRadius = width / 2;
-                height = Math.floor(outerRadius);
-                const innerRadius = outerRadius - shape.thickness;
-                const centerX = (width - 1) / 2.0;
-                
-                for (let z = 0; z < depth; z++) {
-                    for (let y = 0; y < height; y++) {
-                        for (let x = 0; x < width; x++) {
-                             const dx = x - centerX;
-                             const dy = shape.orientation === 'top' ? y - (height -1) : -y;
-                             const distSq = dx * dx + dy * dy;
-
-                             if (distSq <= outerRadius * outerRadius && distSq > innerRadius * innerRadius) {
-                                addVoxel(x, y, z);
-                             }
-                        }
-                    }
-                }
-            } else { // Rectangular or Rounded
-                width = shape.width;
-                height = shape.height;
-                const innerOpeningRadius = shape.width / 2.0;
-                const centerX = (shape.width - 1) / 2.0;
-
-                for (let y = 0; y < height; y++) {
-                    for (let z = 0; z < depth; z++) {
-                        for (let x = 0; x < width; x++) {
-                            let shouldPlace = true;
-
-                            // Carve out the inner arch
-                            if (y >= height - innerOpeningRadius) {
-                                // This part is above the start of the arch curve
-                                const innerDx = x - centerX;
-                                const innerDy = y - (height - innerOpeningRadius);
-                                if (innerDx * innerDx + innerDy * innerDy < innerOpeningRadius * innerOpeningRadius) {
-                                    shouldPlace = false;
-                                }
-                            }
-                            
-                            const outerCornerRadius = shape.outerCornerRadius ?? 0;
-                            if (shouldPlace && shape.archType === 'rounded' && outerCornerRadius > 0) {
-                               // Check top-left corner
-                                if (x < outerCornerRadius && y >= height - outerCornerRadius) {
-                                    const cornerDx = x - outerCornerRadius;
-                                    const cornerDy = y - (height - outerCornerRadius);
-                                    if (cornerDx * cornerDx + cornerDy * cornerDy >= (outerCornerRadius) * (outerCornerRadius)) {
-                                         shouldPlace = false;
-                                    }
-                                }
-                                // Check top-right corner
-                                if (x >= width - outerCornerRadius && y >= height - outerCornerRadius) {
-                                    const cornerDx = x - (width - outerCornerRadius);
-                                    const cornerDy = y - (height - outerCornerRadius);
-                                     if (cornerDx * cornerDx + cornerDy * cornerDy >= (outerCornerRadius) * (outerCornerRadius)) {
-                                         shouldPlace = false;
-                                    }
-                                }
-                            }
-
-                            if (shouldPlace) {
-                                addVoxel(x, y, z);
-                            }
-                        }
-                    }
-                }
-            }
-            break;
+function composeShapes(parts: CompositePart[], onProgress?: ProgressCallback): GeneratedShape {
+    const occupied = new Map<string, Voxel>();
+    let min = { x: Infinity, y: Infinity, z: Infinity };
+    let max = { x: -Infinity, y: -Infinity, z: -Infinity };
+
+    parts.forEach((part, index) => {
+        // Every part takes an equal share of the progress.
+        const { grid, width, height, depth } = generateShapeVoxels(part.shape, onProgress && (progress => onProgress((index + progress) / parts.length)));
+        const { x: ox, y: oy, z: oz } = part.offset;
+
+        const partVoxels = new Map<string, Voxel>();
+        for (const v of grid) {
+            // Anchors only mark the origin of the part on its own, they are not material.
+            if (v.i !== 1) continue;
+            const moved = { x: v.x + ox, y: v.y + oy, z: v.z + oz, i: 1 };
+            partVoxels.set(`${moved.x},${moved.y},${moved.z}`, moved);
         }
-
-        case 'disk': {
-            const { radius, height: diskHeight, part: diskPart = 'full', orientation: diskOrientation = 'horizontal' } = shape;
-            
-            if (diskOrientation === 'vertical') {
-                width = diskHeight;
-                height = radius * 2;
-                depth = radius * 2;
-            } else { // horizontal
-                width = radius * 2;
-                height = diskHeight;
-                depth = radius * 2;
-            }
-            
-            const centerX = (width -1) / 2.0;
-            const centerY = (height -1) / 2.0;
-            const centerZ = (depth -1) / 2.0;
-
-            for (let y = 0; y < height; y++) {
-              for (let z = 0; z < depth; z++) {
-                  for (let x = 0; x < width; x++) {
-                      let withinRadius: boolean;
-                      
-                      if (diskOrientation === 'vertical') {
-                          const dy = y - centerY;
-                          const dz = z - centerZ;
-                          withinRadius = dy * dy + dz * dz <= radius * radius;
-                      } else {
-                          const dx = x - centerX;
-                          const dz = z - centerZ;
-                          withinRadius = dx * dx + dz * dz <= radius * radius;
-                      }
-
-                      if (withinRadius) {
-                           if (diskPart === 'full') {
-                              addVoxel(x, y, z);
-                          } else if (diskPart === 'half') {
-                              if (diskOrientation === 'horizontal' && z < centerZ) {
-                                  addVoxel(x, y, z);
-                              } else if (diskOrientation === 'vertical' && y < centerY) {
-                                  addVoxel(x, y, z);
-                              }
-                          }
-                      }
-                  }
-              }
-            }
-            break;
+        const partMin = { x: ox, y: oy, z: oz };
+        const partMax = { x: ox + width, y: oy + height, z: oz + depth };
+
+        const operation = index === 0 ? 'union' : part.operation;
+        if (operation === 'union') {
+            partVoxels.forEach((v, key) => occupied.set(key, v));
+            min = { x: Math.min(min.x, partMin.x), y: Math.min(min.y, partMin.y), z: Math.min(min.z, partMin.z) };
+            max = { x: Math.max(max.x, partMax.x), y: Math.max(max.y, partMax.y), z: Math.max(max.z, partMax.z) };
+        } else if (operation === 'subtract') {
+            partVoxels.forEach((_, key) => occupied.delete(key));
+        } else { // intersect
+            for (const key of Array.from(occupied.keys())) {
+                if (!partVoxels.has(key)) occupied.delete(key);
+            }
+            min = { x: Math.max(min.x, partMin.x), y: Math.max(min.y, partMin.y), z: Math.max(min.z, partMin.z) };
+            max = { x: Math.min(max.x, partMax.x), y: Math.min(max.y, partMax.y), z: Math.min(max.z, partMax.z) };
         }
-        case 'ring': {
-            const { radius: outerR, thickness, height: ringHeight, part: ringPart = 'full', orientation: ringOrientation = 'horizontal' } = shape;
-            const innerR = outerR - thickness;
-
-            if (ringOrientation.startsWith('vertical')) {
-                width = ringHeight;
-                height = outerR * 2;
-                depth = outerR * 2;
-            } else { // horizontal
-                width = outerR * 2;
-                height = ringHeight;
-                depth = outerR * 2;
-            }
+    });
 
-            const centerX = (width -1) / 2.0;
-            const centerY = (height -1) / 2.0;
-            const centerZ = (depth -1) / 2.0;
-            
-            for (let y = 0; y < height; y++) {
-              for (let z = 0; z < depth; z++) {
-                  for (let x = 0; x < width; x++) {
-                      let distSq: number;
-                      
-                      if (ringOrientation.startsWith('vertical')) {
-                          const dy = y - centerY;
-                          const dz = z - centerZ;
-                          distSq = dy * dy + dz * dz;
-                      } else {
-                          const dx = x - centerX;
-                          const dz = z - centerZ;
-                          distSq = dx * dx + dz * dz;
-                      }
-
-                      if (distSq <= outerR * outerR && distSq > innerR * innerR) {
-                           if (ringPart === 'full') {
-                              addVoxel(x, y, z);
-                          } else if (ringPart === 'half') {
-                              if (ringOrientation === 'horizontal' && z < centerZ) {
-                                  addVoxel(x, y, z);
-                              } else if (ringOrientation === 'vertical-up' && y >= centerY) {
-                                  addVoxel(x, y, z);
-                              } else if (ringOrientation === 'vertical-down' && y < centerY) {
-                                  addVoxel(x, y, z);
-                              }
-                          }
-                      }
-                  }
-              }
-            }
-            break;
-        }
-        
-        case 'qrcode': {
-            const { pixels, size, withBackdrop, backdropDepth } = shape;
-            const qrDepth = shape.depth ?? 1;
-            width = size;
-            height = size;
-            depth = withBackdrop ? 32 : 16;
-            
-            // Block 1: QR Sticker (z: 0 to 15)
-            const qrZOffset = 16 - qrDepth;
-            for (let py = 0; py < height; py++) {
-               for (let px = 0; px < width; px++) {
-                   if (pixels[py * width + px]) {
-                       for (let pz = 0; pz < qrDepth; pz++) {
-                           addVoxel(px, height - 1 - py, qrZOffset + pz, 1);
-                       }
-                    }
-               }
-            }
-            
-            // Block 2: Mounting Plate (z: 16 to 31)
-            if (withBackdrop && backdropDepth && backdropDepth > 0) {
-                addVoxel(0, 0, 31, 3); // Anchor for the plate block in the far corner
-                const backdropZStart = 16;
-                for (let py = 0; py < height; py++) {
-                    for (let px = 0; px < width; px++) {
-                         for (let pz = 0; pz < backdropDepth; pz++) {
-                            addVoxel(px, height - 1 - py, backdropZStart + pz, 1);
-                        }
-                    }
-                }
-            }
-            break;
-        }
+    if (occupied.size === 0 || max.x <= min.x || max.y <= min.y || max.z <= min.z) {
+        throw new Error(EMPTY_COMPOSITION_ERROR);
+    }
 
-        case 'checkerboard': {
-            const { width: blockWidth, length: blockLength, height: blockHeight } = shape;
-            const VOXEL_SIZE = 16;
-            width = blockWidth * VOXEL_SIZE;
-            height = blockHeight * VOXEL_SIZE;
-            depth = blockLength * VOXEL_SIZE;
-
-            for (let by = 0; by < blockHeight; by++) {
-                for (let bz = 0; bz < blockLength; bz++) {
-                    for (let bx = 0; bx < blockWidth; bx++) {
-                        if ((bx + by + bz) % 2 === 0) {
-                            const startX = bx * VOXEL_SIZE;
-                            const startY = by * VOXEL_SIZE;
-                            const startZ = bz * VOXEL_SIZE;
-                            for (let y = startY; y < startY + VOXEL_SIZE; y++) {
-                                for (let z = startZ; z < startZ + VOXEL_SIZE; z++) {
-                                    for (let x = startX; x < startX + VOXEL_SIZE; x++) {
-                                        addVoxel(x, y, z);
-                                    }
-                                }
-                            }
-                        }
-                    }
-                }
-            }
-            break;
-        }
+    const size = { width: max.x - min.x, height: max.y - min.y, depth: max.z - min.z };
+    const grid = VoxelGrid.fromVoxels(Array.from(occupied.values(), v => ({ x: v.x - min.x, y: v.y - min.y, z: v.z - min.z, i: v.i })), size);
+    return { grid, ...size };
+}
 
-        case 'haystack': {
-            width = depth = shape.radius * 2;
-            height = shape.height;
-            const baseRadius = shape.radius;
-            const center = baseRadius - 0.5;
-
-            for (let y = 0; y < height; y++) {
-                const progress = y / (height - 1);
-                // Non-linear radius reduction for a more rounded shape
-                const currentRadius = baseRadius * (1 - Math.pow(progress, 2.5));
-                const currentRadiusSq = currentRadius * currentRadius;
-                
-                // Add some randomness to the center of each slice
-                const offsetX = (Math.random() - 0.5) * (baseRadius / 8) * (1 - progress);
-                const offsetZ = (Math.random() - 0.5) * (baseRadius / 8) * (1 - progress);
-                
-                for (let z = 0; z < baseRadius * 2; z++) {
-                    for (let x = 0; x < baseRadius * 2; x++) {
-                        const dx = x - center + offsetX;
-                        const dz = z - center + offsetZ;
-                        if (dx * dx + dz * dz <= currentRadiusSq) {
-                            addVoxel(x, y, z);
-                        }
-                    }
-                }
-            }
-            break;
+/**
+ * Builds the voxel grid (anchor included) and the bounding box for a 3D shape.
+ */
+function generateShapeVoxels(shape: VoxShape, onProgress?: ProgressCallback): GeneratedShape {
+    let generated: GeneratedShape;
+    if (shape.type === 'composite') {
+        generated = composeShapes(shape.parts, onProgress);
+    } else {
+        const plugin = getVoxShape(shape.type);
+        if (!plugin) {
+            throw new Error(`Unknown shape: ${shape.type}`);
         }
+        generated = plugin.generate(shape, onProgress);
+    }
 
-        case 'corner': {
-            const { radius, height: cornerHeight, external, internal } = shape;
-            width = depth = radius;
-            height = cornerHeight;
-            const rSq = radius * radius;
-
-                 xyziValues = []; // Clear previous attempts
-                 addVoxel(0,0,0,2); 
-
-                 if (external) {
-                    for (let y = 0; y < height; y++) {
-                        for (let z = 0; z < radius; z++) {
-                            for (let x = 0; x < radius; x++) {
-                                if (x * x + z * z <= rSq) {
-                                    addVoxel(x, y, z);
-                                }
-                            }
-                        }
-                    }
-                 } else if (internal) {
-                    // Create the full block first
-                    for (let y = 0; y < height; y++) {
-                        for (let z = 0; z < radius; z++) {
-                            for (let x = 0; x < radius; x++) {
-                                // Carve out the corner
-                                if (x*x + z*z > rSq) {
-                                    addVoxel(x,y,z);
-                                }
-                            }
-                        }
-                    }
-                 }
-            break;
-        }
+    const { grid, width, height, depth } = generated;
+    // The anchor marks the origin of the model unless the shape already fills it.
+    if (!grid.has(0, 0, 0)) grid.set(0, 0, 0, 2);
+    grid.resize(width, height, depth);
+    return generated;
+}
 
-    }
-    
-    totalVoxels = xyziValues.length > 1 ? xyziValues.length -1 : 0;
+/**
+ * Generates a .vox file for a given 3D shape using the vox-saver library.
+ */
+export function voxToSchematic(shape: VoxShape, transform?: VoxTransform, onProgress?: ProgressCallback): SchematicOutput {
+    const generated = generateShapeVoxels(shape, onProgress);
+    // The anchor only counts when no part of the shape took its place.
+    const anchors = generated.grid.get(0, 0, 0) === 2 ? 1 : 0;
+    const totalVoxels = generated.grid.count - anchors;
+    const grid = generated.grid.transform(transform);
+    const { width, height, depth } = grid;
+    const name = `VOX Shape: ${shape.type}`;
     
     const palette: PaletteColor[] = Array.from({length: 256}, () => ({r:0,g:0,b:0,a:0}));
     palette[0] = { r: 0, g: 0, b: 0, a: 0 }; // MagicaVoxel palette is 1-indexed, so 0 is empty
@@ -1382,17 +851,7 @@ export function voxToSchematic(shape: VoxShape): SchematicOutput {
     
     const voxSize = { x: width, y: depth, z: height };
     
-    const voxObject = {
-        size: voxSize,
-        xyzi: {
-            values: xyziValues.map(v => ({ x: v.x, y: v.z, z: v.y, i: v.i }))
-        },
-        rgba: {
-            values: palette
-        }
-    };
-    
-    const buffer = writeVox(voxObject);
+    const buffer = grid.toVox(palette);
 
     return {
         schematicData: createSchematicData(name, {width, height, depth}),
@@ -0,0 +1,180 @@
+/**
+ * Builds .vox models from sign settings: a frame, an icon and text.
+ * Shared by the server action and the generation worker.
+ */
+
+import { z } from 'zod';
+import type { PaletteColor, ProgressCallback, VoxGenerationResult } from './schematic-utils';
+import { rasterizePixelText } from './schematic-utils';
+import { VoxTransformSchema } from './vox-transform';
+import { VoxelGrid } from './voxel-grid';
+
+const PixelDataSchema = z.object({
+    pixels: z.array(z.boolean()),
+    width: z.number().int(),
+    height: z.number().int(),
+    offsetY: z.number().int().optional(),
+});
+
+const SignToVoxInputSchema = z.object({
+    width: z.number().int().min(16),
+    height: z.number().int().min(16),
+    frameWidth: z.number().int().min(1),
+    icon: PixelDataSchema.optional(),
+    text: z.string(), // Changed from PixelDataSchema to string
+    frame: z.boolean(),
+    signIconScale: z.number(),
+    signIconOffsetY: z.number(),
+    textOffsetY: z.number(),
+    signWithIcon: z.boolean(),
+    transform: VoxTransformSchema.optional(),
+});
+
+export type SignToVoxInput = z.infer<typeof SignToVoxInputSchema>;
+
+function createSchematicData(name: string, dimensions: {width: number, height: number, depth?: number}): string {
+    const { width, height, depth } = dimensions;
+    const depthInfo = depth ? `x${depth}`: '';
+    return `Schematic: ${name} (${width}x${height}${depthInfo})`;
+}
+
+export async function generateSignToVox(input: SignToVoxInput, onProgress?: ProgressCallback): Promise<VoxGenerationResult & { totalVoxels: number }> {
+  const { 
+    width: signWidth,
+    height: signHeight,
+    frameWidth,
+    icon,
+    text,
+    frame,
+    signIconOffsetY,
+    textOffsetY,
+    signWithIcon,
+    transform,
+  } = SignToVoxInputSchema.parse(input);
+
+  const grid = new VoxelGrid();
+  const Z_OFFSET = 15;
+  const Y_OFFSET = 4;
+  
+  const addVoxel = (px: number, py: number, pz: number, colorIndex = 1) => {
+    grid.set(px, py + Y_OFFSET, pz, colorIndex);
+  };
+  addVoxel(0,-Y_OFFSET,0,2); // Anchor point at 0,0,0
+
+  onProgress?.(0);
+  // 1. Generate Frame
+  if (frame) {
+    const cornerRadius = frameWidth * 2;
+    for(let y = 0; y < signHeight; y++) {
+      for (let x = 0; x < signWidth; x++) {
+          let isFrame = false;
+          // Top/Bottom border
+          if (y < frameWidth || y >= signHeight - frameWidth) isFrame = true;
+          // Left/Right border
+          if (x < frameWidth || x >= signWidth - frameWidth) isFrame = true;
+
+          // Carve out rounded corners
+          const checkCorner = (cx: number, cy: number, radius: number) => {
+              const dx = Math.abs(x - cx);
+              const dy = Math.abs(y - cy);
+              if (dx > radius || dy > radius) return false;
+              return (dx - radius) * (dx - radius) + (dy - radius) * (dy - radius) > radius * radius;
+          }
+          
+          // Top-left
+          if (checkCorner(cornerRadius, cornerRadius, cornerRadius)) isFrame = false;
+          // Top-right
+          if (checkCorner(signWidth - 1 - cornerRadius, cornerRadius, cornerRadius)) isFrame = false;
+          // Bottom-left
+          if (checkCorner(cornerRadius, signHeight - 1 - cornerRadius, cornerRadius)) isFrame = false;
+          // Bottom-right
+          if (checkCorner(signWidth - 1 - cornerRadius, signHeight - 1 - cornerRadius, cornerRadius)) isFrame = false;
+
+          if(isFrame) addVoxel(x, signHeight - 1 - y, Z_OFFSET);
+      }
+    }
+  }
+  
+  // Calculate content area as if the frame always exists to ensure consistent centering.
+  const contentWidth = signWidth - (frameWidth * 2);
+  const contentXStart = frameWidth;
+  const contentHeight = signHeight - (frameWidth * 2);
+  const contentCenterY = Math.floor(signHeight / 2);
+  const hasIcon = icon && icon.pixels.length > 0 && signWithIcon;
+  
+  onProgress?.(0.4);
+  // 2. Place Icon
+  if (hasIcon) {
+      const iconXOffset = contentXStart + Math.floor((contentWidth - icon.width) / 2);
+      const iconBaseY = contentCenterY + Math.floor(contentHeight * 0.25) - Math.floor(icon.height / 2);
+      const finalIconYOffset = iconBaseY + (signIconOffsetY || 0);
+
+      for (let y = 0; y < icon.height; y++) {
+          for (let x = 0; x < icon.width; x++) {
+              if (icon.pixels[y * icon.width + x]) {
+                  addVoxel(x + iconXOffset, signHeight - 1 - (y + finalIconYOffset), Z_OFFSET);
+              }
+          }
+      }
+  }
+
+  onProgress?.(0.6);
+  // 3. Place Text
+  if (text && text.trim().length > 0) {
+      const { lines, totalHeight: textBlockHeight } = await rasterizePixelText({
+          text: text.toUpperCase(),
+      });
+      
+      let textBaseY;
+       if(hasIcon) {
+        textBaseY = contentCenterY - Math.floor(contentHeight * 0.25) - Math.floor(textBlockHeight / 2);
+      } else {
+        // If no icon, center text vertically
+        textBaseY = Math.floor((signHeight - textBlockHeight) / 2);
+      }
+
+      const finaltextYOffset = textBaseY + (textOffsetY || 0);
+
+      let currentY = finaltextYOffset;
+
+      for (const line of lines) {
+        const textXOffset = contentXStart + Math.floor((contentWidth - line.width) / 2);
+        for(let y = 0; y < line.height; y++) {
+            for (let x = 0; x < line.width; x++) {
+                if (line.pixels[y * line.width + x]) {
+                    addVoxel(x + textXOffset, signHeight - 1 - (currentY + y), Z_OFFSET);
+                }
+            }
+        }
+        currentY += line.height + 1; // +1 for line spacing
+      }
+  }
+
+  grid.resize(signWidth, signHeight + Y_OFFSET, 16);
+  const totalVoxels = grid.count - 1;
+  const transformed = grid.transform(transform);
+  const modelWidth = transformed.width;
+  const modelHeight = transformed.height;
+  const modelDepth = transformed.depth;
+ 
+  const palette: PaletteColor[] = Array.from({length: 256}, () => ({r:0,g:0,b:0,a:0}));
+  palette[0] = { r: 0, g: 0, b: 0, a: 0 }; // Main color
+  palette[1] = { r: 10, g: 10, b: 10, a: 255 }; // Main color
+  palette[2] = { r: 200, g: 164, b: 100, a: 255 }; // Anchor color
+
+  const voxSize = { x: modelWidth, y: modelDepth, z: modelHeight };
+
+  const buffer = transformed.toVox(palette);
+  
+  return {
+      schematicData: createSchematicData('VOX Sign', {width: modelWidth, height: modelHeight, depth: modelDepth}),
+      width: modelWidth,
+      height: modelHeight,
+      depth: modelDepth,
+      isVox: true,
+      voxData: buffer,
+      voxSize: voxSize,
+      totalVoxels,
+  };
+}
+    
@@ -0,0 +1,134 @@
+/**
+ * Builds .vox models from orthographic silhouettes (visual hull).
+ * Shared by the server action and the generation worker.
+ */
+
+import { z } from 'zod';
+import type { PaletteColor, ProgressCallback, VoxGenerationResult } from './schematic-utils';
+import { VoxTransformSchema } from './vox-transform';
+import { VoxelGrid } from './voxel-grid';
+
+const SilhouetteSchema = z.object({
+  pixels: z.array(z.boolean()),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+const SilhouetteToVoxInputSchema = z.object({
+  front: SilhouetteSchema,
+  // Seen from the right: the left edge of the image is the front of the model.
+  side: SilhouetteSchema,
+  // Seen from above: the bottom edge of the image is the front of the model.
+  top: SilhouetteSchema.optional(),
+  transform: VoxTransformSchema.optional(),
+});
+
+export type SilhouetteToVoxInput = z.infer<typeof SilhouetteToVoxInputSchema>;
+type Silhouette = z.infer<typeof SilhouetteSchema>;
+
+const MAX_DIMENSION = 256;
+
+function createSchematicData(name: string, dimensions: {width: number, height: number, depth?: number}): string {
+    const { width, height, depth } = dimensions;
+    const depthInfo = depth ? `x${depth}`: '';
+    return `Schematic: ${name} (${width}x${height}${depthInfo})`;
+}
+
+// Crops a silhouette to the bounding box of its filled pixels.
+function cropSilhouette(view: Silhouette, name: string): Silhouette {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let y = 0; y < view.height; y++) {
+    for (let x = 0; x < view.width; x++) {
+      if (view.pixels[y * view.width + x]) {
+        minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  if (maxX < minX) {
+    throw new Error(`The ${name} silhouette is empty.`);
+  }
+
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+  const pixels: boolean[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels.push(view.pixels[(y + minY) * view.width + x + minX]);
+    }
+  }
+  return { pixels, width, height };
+}
+
+// Nearest-neighbour lookup into a silhouette stretched to width x height.
+function sampler(view: Silhouette, width: number, height: number) {
+  return (x: number, y: number) => {
+    const sx = Math.min(view.width - 1, Math.floor(x * view.width / width));
+    const sy = Math.min(view.height - 1, Math.floor(y * view.height / height));
+    return view.pixels[sy * view.width + sx];
+  };
+}
+
+export function generateSilhouetteToVox(input: SilhouetteToVoxInput, onProgress?: ProgressCallback): VoxGenerationResult & { totalVoxels: number } {
+  const parsed = SilhouetteToVoxInputSchema.parse(input);
+  const front = cropSilhouette(parsed.front, 'front');
+  const side = cropSilhouette(parsed.side, 'side');
+  const top = parsed.top ? cropSilhouette(parsed.top, 'top') : null;
+
+  // The front view sets width and height, the side view is scaled to the same height.
+  const modelWidth = front.width;
+  const modelHeight = front.height;
+  const modelDepth = Math.max(1, Math.round(side.width * modelHeight / side.height));
+  if (Math.max(modelWidth, modelHeight, modelDepth) > MAX_DIMENSION) {
+    throw new Error(`The model is too large. Each dimension must be at most ${MAX_DIMENSION} voxels.`);
+  }
+
+  const inFront = sampler(front, modelWidth, modelHeight);
+  const inSide = sampler(side, modelDepth, modelHeight);
+  const inTop = top ? sampler(top, modelWidth, modelDepth) : null;
+
+  const grid = new VoxelGrid(modelWidth, modelHeight, modelDepth);
+  grid.set(0, 0, 0, 2);
+  let totalVoxels = 0;
+
+  for (let py = 0; py < modelHeight; py++) {
+    onProgress?.(py / modelHeight);
+    const y = modelHeight - 1 - py;
+    for (let x = 0; x < modelWidth; x++) {
+      if (!inFront(x, py)) continue;
+      for (let z = 0; z < modelDepth; z++) {
+        if (!inSide(z, py)) continue;
+        if (inTop && !inTop(x, modelDepth - 1 - z)) continue;
+        grid.set(x, y, z, 1);
+        totalVoxels++;
+      }
+    }
+  }
+
+  if (totalVoxels === 0) {
+    throw new Error('The silhouettes do not overlap.');
+  }
+
+  const transformed = grid.transform(parsed.transform);
+  const { width: finalWidth, height: finalHeight, depth: finalDepth } = transformed;
+
+  const palette: PaletteColor[] = Array.from({length: 256}, () => ({r:0,g:0,b:0,a:0}));
+  palette[0] = { r: 0, g: 0, b: 0, a: 0 };
+  palette[1] = { r: 200, g: 164, b: 100, a: 255 }; // Main color
+  palette[2] = { r: 10, g: 10, b: 10, a: 255 }; // Anchor color
+
+  const voxSize = { x: finalWidth, y: finalDepth, z: finalHeight };
+
+  const buffer = transformed.toVox(palette);
+
+  return {
+      schematicData: createSchematicData('VOX Silhouette', {width: finalWidth, height: finalHeight, depth: finalDepth}),
+      width: finalWidth,
+      height: finalHeight,
+      depth: finalDepth,
+      isVox: true,
+      voxData: buffer,
+      voxSize: voxSize,
+      totalVoxels,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Builds .vox models from rasterized text.
+ * Shared by the server action and the generation worker.
+ */
+
+import { z } from 'zod';
+import type { PaletteColor, ProgressCallback, VoxGenerationResult } from './schematic-utils';
+import { ORIENTATION_TRANSFORMS, VoxTransformSchema } from './vox-transform';
+import { VoxelGrid } from './voxel-grid';
+
+const TextToVoxInputSchema = z.object({
+  pixels: z.array(z.boolean()),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  mode: z.enum(['extrude', 'engrave']),
+  letterDepth: z.number().int().positive(),
+  backgroundDepth: z.number().int().min(0),
+  engraveDepth: z.number().int().min(0),
+  orientation: z.enum(['horizontal', 'vertical-lr']),
+  stickerMode: z.boolean(),
+  transform: VoxTransformSchema.optional(),
+});
+
+export type TextToVoxInput = z.infer<typeof TextToVoxInputSchema>;
+
+function createSchematicData(name: string, dimensions: {width: number, height: number, depth?: number}): string {
+    const { width, height, depth } = dimensions;
+    const depthInfo = depth ? `x${depth}`: '';
+    return `Schematic: ${name} (${width}x${height}${depthInfo})`;
+}
+
+export function generateTextToVox(input: TextToVoxInput, onProgress?: ProgressCallback): VoxGenerationResult {
+  const { 
+    pixels: originalPixels, 
+    width: textWidth, 
+    height: textHeight, 
+    mode, 
+    letterDepth, 
+    // backgroundDepth is now fixed for engrave mode
+    engraveDepth,
+    orientation,
+    stickerMode,
+    transform,
+  } = TextToVoxInputSchema.parse(input);
+
+  const backgroundDepth = 16; // Locked value
+
+  const grid = new VoxelGrid();
+  
+  const addVoxel = (px: number, py: number, pz: number, colorIndex = 1) => {
+    grid.set(px, py, pz, colorIndex);
+  };
+  
+  // Add anchor point conditionally
+  if (mode === 'extrude') {
+      addVoxel(0, 0, 0, 2);
+  }
+
+  let pixels = originalPixels;
+  let modelWidth = textWidth;
+  let modelHeight = textHeight;
+
+  if (mode === 'engrave') {
+      const finalWidth = Math.ceil(textWidth / 16) * 16;
+      const finalHeight = Math.ceil(textHeight / 16) * 16;
+      
+      const paddedPixels = Array(finalWidth * finalHeight).fill(false);
+      const xOffset = Math.floor((finalWidth - textWidth) / 2);
+      const yOffset = Math.floor((finalHeight - textHeight) / 2);
+      
+      for(let y = 0; y < textHeight; y++) {
+          for(let x = 0; x < textWidth; x++) {
+              if (originalPixels[y * textWidth + x]) {
+                  paddedPixels[(y + yOffset) * finalWidth + (x + xOffset)] = true;
+              }
+          }
+      }
+      pixels = paddedPixels;
+      modelWidth = finalWidth;
+      modelHeight = finalHeight;
+  }
+
+  let modelDepth = 0;
+  const STICKER_BLOCK_DEPTH = 16;
+  
+  const placeVoxel = (px: number, py: number, pz: number, zOffset: number) => {
+    addVoxel(px, modelHeight - 1 - py, pz + zOffset);
+  };
+
+  if (mode === 'extrude') {
+    const zOffset = stickerMode ? STICKER_BLOCK_DEPTH - letterDepth : 0;
+    modelDepth = stickerMode ? STICKER_BLOCK_DEPTH : letterDepth;
+
+    for (let py = 0; py < modelHeight; py++) {
+      onProgress?.(py / modelHeight);
+      for (let px = 0; px < modelWidth; px++) {
+        if (pixels[py * modelWidth + px]) {
+          for (let pz = 0; pz < letterDepth; pz++) {
+             placeVoxel(px, py, pz, zOffset);
+          }
+        }
+      }
+    }
+  } else if (mode === 'engrave') {
+    modelDepth = stickerMode ? STICKER_BLOCK_DEPTH : backgroundDepth;
+    const zStart = stickerMode ? STICKER_BLOCK_DEPTH - backgroundDepth : 0;
+    
+    for (let py = 0; py < modelHeight; py++) {
+      onProgress?.(py / modelHeight);
+      for (let px = 0; px < modelWidth; px++) {
+        const isTextPixel = pixels[py * modelWidth + px];
+        
+        const startDepthForPixel = isTextPixel ? engraveDepth : 0;
+
+        for (let pz = startDepthForPixel; pz < backgroundDepth; pz++) {
+             placeVoxel(px, py, pz, zStart);
+        }
+      }
+    }
+  }
+
+  grid.resize(modelWidth, modelHeight, modelDepth);
+  const transformed = grid.transform(ORIENTATION_TRANSFORMS[orientation]).transform(transform);
+  const finalWidth = transformed.width;
+  const finalHeight = transformed.height;
+  const finalDepth = transformed.depth;
+ 
+  const palette: PaletteColor[] = [
+    { r: 0, g: 0, b: 0, a: 0 },
+    { r: 200, g: 164, b: 100, a: 255 }, // Main color
+    { r: 10, g: 10, b: 10, a: 255 },    // Anchor color
+  ];
+  while (palette.length < 256) {
+    palette.push({ r: 0, g: 0, b: 0, a: 0 });
+  }
+
+  const voxSize = { x: finalWidth, y: finalDepth, z: finalHeight };
+
+  const buffer = transformed.toVox(palette);
+  
+  return {
+      schematicData: createSchematicData('VOX Text', {width: finalWidth, height: finalHeight, depth: finalDepth}),
+      width: finalWidth,
+      height: finalHeight,
+      depth: finalDepth,
+      isVox: true,
+      voxData: buffer,
+      voxSize: voxSize,
+  };
+}
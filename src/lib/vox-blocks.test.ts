@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { splitVoxIntoBlocks } from './vox-blocks';
+import { ANCHOR_COLOR_INDEX, decodeVox, encodeVox } from './vox-io';
+
+const palette = Array.from({ length: 256 }, () => ({ r: 200, g: 100, b: 50, a: 255 }));
+
+describe('splitVoxIntoBlocks', () => {
+  it('leaves out only the anchor at the origin', () => {
+    const voxData = encodeVox({
+      size: { x: 32, y: 16, z: 16 },
+      voxels: [
+        { x: 0, y: 0, z: 0, i: ANCHOR_COLOR_INDEX },
+        // Material in the anchor colour away from the origin.
+        { x: 1, y: 0, z: 0, i: ANCHOR_COLOR_INDEX },
+        { x: 20, y: 3, z: 4, i: 1 },
+      ],
+      palette,
+    });
+
+    const { manifest, blocks } = splitVoxIntoBlocks(voxData, { anchor: false });
+
+    expect(manifest.blocks.map(b => [b.file, b.voxelCount])).toEqual([
+      ['block_x0_y0_z0.vox', 1],
+      ['block_x1_y0_z0.vox', 1],
+    ]);
+    expect(decodeVox(blocks[0].voxData).voxels).toEqual([{ x: 1, y: 0, z: 0, i: ANCHOR_COLOR_INDEX }]);
+  });
+
+  it('anchors every block without counting the anchor', () => {
+    const voxData = encodeVox({
+      size: { x: 32, y: 16, z: 16 },
+      voxels: [{ x: 20, y: 3, z: 4, i: 1 }],
+      palette,
+    });
+
+    const { manifest, blocks } = splitVoxIntoBlocks(voxData);
+
+    expect(manifest.blocks[0].voxelCount).toBe(1);
+    expect(decodeVox(blocks[0].voxData).voxels).toEqual([
+      { x: 4, y: 3, z: 4, i: 1 },
+      { x: 0, y: 0, z: 0, i: ANCHOR_COLOR_INDEX },
+    ]);
+  });
+});
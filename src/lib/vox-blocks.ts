@@ -0,0 +1,143 @@
+import JSZip from 'jszip';
+import { ANCHOR_COLOR_INDEX, decodeVox, encodeVox, isAnchorVoxel, type VoxVoxel } from './vox-io';
+
+export const BLOCK_SIZE = 16;
+
+type Vec3 = { x: number, y: number, z: number };
+
+/**
+ * Placement of one block file. Offsets are in game space (y is up),
+ * measured from the block holding the model origin.
+ */
+export interface BlockManifestEntry {
+  file: string;
+  block: Vec3;
+  voxelOffset: Vec3;
+  voxelCount: number;
+}
+
+export interface BlockManifest {
+  blockSize: number;
+  modelSize: { width: number, height: number, depth: number };
+  blockCount: Vec3;
+  blocks: BlockManifestEntry[];
+}
+
+export interface VoxBlock {
+  entry: BlockManifestEntry;
+  voxData: Uint8Array;
+}
+
+export interface SplitOptions {
+  // Puts an anchor voxel in the corner of every block so the mod keeps it aligned.
+  anchor?: boolean;
+}
+
+export function blockFileName(block: Vec3): string {
+  return `block_x${block.x}_y${block.y}_z${block.z}.vox`;
+}
+
+/**
+ * Slices a .vox model into 16x16x16 block models. Empty blocks are skipped.
+ */
+export function splitVoxIntoBlocks(voxData: Uint8Array, options: SplitOptions = {}): { manifest: BlockManifest, blocks: VoxBlock[] } {
+  const { anchor = true } = options;
+  const model = decodeVox(voxData);
+
+  // File space has z up, the manifest uses the game convention with y up.
+  const grouped = new Map<string, { block: Vec3, voxels: VoxVoxel[] }>();
+  for (const voxel of model.voxels) {
+    // The model's anchor is not material; the blocks get their own anchors below.
+    if (isAnchorVoxel(voxel)) continue;
+    const block = {
+      x: Math.floor(voxel.x / BLOCK_SIZE),
+      y: Math.floor(voxel.z / BLOCK_SIZE),
+      z: Math.floor(voxel.y / BLOCK_SIZE),
+    };
+    const key = `${block.x},${block.y},${block.z}`;
+    let group = grouped.get(key);
+    if (!group) {
+      group = { block, voxels: [] };
+      grouped.set(key, group);
+    }
+    group.voxels.push({
+      x: voxel.x % BLOCK_SIZE,
+      y: voxel.y % BLOCK_SIZE,
+      z: voxel.z % BLOCK_SIZE,
+      i: voxel.i,
+    });
+  }
+
+  const blocks: VoxBlock[] = [];
+  for (const { block, voxels } of grouped.values()) {
+    const voxelCount = voxels.length;
+    if (anchor && !voxels.some(v => v.x === 0 && v.y === 0 && v.z === 0)) {
+      voxels.push({ x: 0, y: 0, z: 0, i: ANCHOR_COLOR_INDEX });
+    }
+
+    const voxData = encodeVox({
+      size: { x: BLOCK_SIZE, y: BLOCK_SIZE, z: BLOCK_SIZE },
+      voxels,
+      palette: model.palette,
+    });
+
+    blocks.push({
+      entry: {
+        file: blockFileName(block),
+        block,
+        voxelOffset: { x: block.x * BLOCK_SIZE, y: block.y * BLOCK_SIZE, z: block.z * BLOCK_SIZE },
+        voxelCount,
+      },
+      voxData,
+    });
+  }
+
+  blocks.sort((a, b) => a.entry.block.y - b.entry.block.y || a.entry.block.z - b.entry.block.z || a.entry.block.x - b.entry.block.x);
+
+  const manifest: BlockManifest = {
+    blockSize: BLOCK_SIZE,
+    modelSize: { width: model.size.x, height: model.size.z, depth: model.size.y },
+    blockCount: {
+      x: Math.ceil(model.size.x / BLOCK_SIZE),
+      y: Math.ceil(model.size.z / BLOCK_SIZE),
+      z: Math.ceil(model.size.y / BLOCK_SIZE),
+    },
+    blocks: blocks.map(b => b.entry),
+  };
+
+  return { manifest, blocks };
+}
+
+function formatManifestText(manifest: BlockManifest): string {
+  const { modelSize, blockCount } = manifest;
+  const lines = [
+    `Model size: ${modelSize.width} x ${modelSize.height} x ${modelSize.depth} voxels (width x height x depth)`,
+    `Blocks: ${blockCount.x} x ${blockCount.y} x ${blockCount.z}, ${manifest.blocks.length} non-empty`,
+    '',
+    'Offsets are in blocks from the origin block (x - width, y - up, z - depth).',
+    'Place the origin block first, then each file at the given offset.',
+    '',
+    ...manifest.blocks.map(({ file, block, voxelCount }) =>
+      `${file}\t+${block.x} +${block.y} +${block.z}\t${voxelCount} voxels`),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Bundles the block files together with manifest.json and manifest.txt.
+ */
+export async function createBlockArchive(voxData: Uint8Array, options?: SplitOptions): Promise<Blob> {
+  const { manifest, blocks } = splitVoxIntoBlocks(voxData, options);
+  if (blocks.length === 0) {
+    throw new Error('The model has no voxels to split.');
+  }
+
+  const zip = new JSZip();
+  for (const { entry, voxData: blockData } of blocks) {
+    zip.file(entry.file, blockData);
+  }
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  zip.file('manifest.txt', formatManifestText(manifest));
+
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,188 @@
+import type { VoxColor, VoxModel, VoxVoxel } from './vox-io';
+
+/**
+ * Geometry behind the voxel editor: the visible faces of a model, an orbit
+ * camera to project them and picking of the face under the pointer.
+ * Everything here works in file space: x - width, y - depth, z - up.
+ */
+
+export type VoxEditTool = 'add' | 'remove' | 'paint';
+
+// Yaw turns around the up axis, pitch tilts the view down onto the model (radians).
+// Zoom is screen pixels per voxel.
+export interface VoxCamera {
+  yaw: number;
+  pitch: number;
+  zoom: number;
+}
+
+export interface VoxFace {
+  voxel: VoxVoxel;
+  // Index into FACE_NORMALS.
+  side: number;
+}
+
+export interface ProjectedFace {
+  face: VoxFace;
+  // Corners as x0, y0, ... x3, y3, relative to the viewport centre (CSS px).
+  points: number[];
+  depth: number;
+  // Brightness of the face, so the sides can be told apart.
+  light: number;
+}
+
+export const FACE_NORMALS: [number, number, number][] = [
+  [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1],
+];
+const FACE_LIGHT = [0.8, 0.8, 0.7, 0.7, 1, 0.55];
+
+export const MIN_PITCH = -Math.PI / 2;
+export const MAX_PITCH = Math.PI / 2;
+
+const key = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+/**
+ * Faces between a voxel and an empty cell. Faces inside the model can never
+ * be seen or clicked, so they are dropped once per model.
+ */
+export function visibleFaces(model: VoxModel): VoxFace[] {
+  const occupied = new Set(model.voxels.map(v => key(v.x, v.y, v.z)));
+  const faces: VoxFace[] = [];
+  for (const voxel of model.voxels) {
+    FACE_NORMALS.forEach(([nx, ny, nz], side) => {
+      if (!occupied.has(key(voxel.x + nx, voxel.y + ny, voxel.z + nz))) {
+        faces.push({ voxel, side });
+      }
+    });
+  }
+  return faces;
+}
+
+// Camera looking at the model centre with the default framing for the viewport.
+export function fitCamera(size: VoxModel['size'], width: number, height: number): VoxCamera {
+  const { x, y, z } = size;
+  const diagonal = Math.max(1, Math.hypot(x, y, z));
+  return { yaw: Math.PI / 4, pitch: Math.PI / 6, zoom: 0.9 * Math.min(width, height) / diagonal };
+}
+
+function cameraBasis({ yaw, pitch }: VoxCamera) {
+  const sinYaw = Math.sin(yaw), cosYaw = Math.cos(yaw);
+  const sinPitch = Math.sin(pitch), cosPitch = Math.cos(pitch);
+  return {
+    right: [cosYaw, -sinYaw, 0],
+    up: [sinYaw * sinPitch, cosYaw * sinPitch, cosPitch],
+    forward: [sinYaw * cosPitch, cosYaw * cosPitch, -sinPitch],
+  };
+}
+
+const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+// Corners of one face in winding order, before projection.
+function faceCorners({ voxel, side }: VoxFace): number[][] {
+  const axis = side >> 1;
+  const plane = (side & 1) === 0 ? 1 : 0;
+  const u = (axis + 1) % 3, v = (axis + 2) % 3;
+  const origin = [voxel.x, voxel.y, voxel.z];
+  return [[0, 0], [1, 0], [1, 1], [0, 1]].map(([du, dv]) => {
+    const corner = origin.slice();
+    corner[axis] += plane;
+    corner[u] += du;
+    corner[v] += dv;
+    return corner;
+  });
+}
+
+/**
+ * Projects the faces that point towards the camera (orthographic) and sorts them
+ * back to front, so painting them in order hides what lies behind.
+ */
+export function projectFaces(faces: VoxFace[], model: VoxModel, camera: VoxCamera): ProjectedFace[] {
+  const { right, up, forward } = cameraBasis(camera);
+  const center = [model.size.x / 2, model.size.y / 2, model.size.z / 2];
+  const projected: ProjectedFace[] = [];
+
+  for (const face of faces) {
+    if (dot(FACE_NORMALS[face.side], forward) >= 0) continue;
+    const points: number[] = [];
+    let depth = 0;
+    for (const corner of faceCorners(face)) {
+      const relative = [corner[0] - center[0], corner[1] - center[1], corner[2] - center[2]];
+      points.push(dot(relative, right) * camera.zoom, -dot(relative, up) * camera.zoom);
+      depth += dot(relative, forward) / 4;
+    }
+    projected.push({ face, points, depth, light: FACE_LIGHT[face.side] });
+  }
+
+  return projected.sort((a, b) => b.depth - a.depth);
+}
+
+function containsPoint(points: number[], x: number, y: number): boolean {
+  // A projected face is a parallelogram, so the point must lie on the same side of every edge.
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const ax = points[i * 2], ay = points[i * 2 + 1];
+    const bx = points[(i * 2 + 2) % 8], by = points[(i * 2 + 3) % 8];
+    const cross = (bx - ax) * (y - ay) - (by - ay) * (x - ax);
+    if (cross === 0) continue;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return sign !== 0;
+}
+
+// The nearest face under a viewport point, relative to the viewport centre.
+export function pickFace(projected: ProjectedFace[], x: number, y: number): VoxFace | null {
+  for (let i = projected.length - 1; i >= 0; i--) {
+    if (containsPoint(projected[i].points, x, y)) return projected[i].face;
+  }
+  return null;
+}
+
+// Gives an unused (transparent) palette entry a colour once a voxel uses it.
+function withOpaqueColor(palette: VoxColor[], index: number): VoxColor[] {
+  const color = palette[index];
+  if (color && color.a > 0) return palette;
+  const next = palette.slice();
+  next[index] = { r: color?.r ?? 0, g: color?.g ?? 0, b: color?.b ?? 0, a: 255 };
+  return next;
+}
+
+/**
+ * Applies one click of the editor to the face under the pointer: adds a voxel in
+ * front of it, removes its voxel or recolours it. Returns null when nothing changes,
+ * e.g. when a new voxel would land outside the model bounds or on a hidden voxel.
+ */
+export function applyVoxelEdit(model: VoxModel, face: VoxFace, tool: VoxEditTool, colorIndex: number): VoxModel | null {
+  const { voxel } = face;
+  const isTarget = (v: VoxVoxel) => v.x === voxel.x && v.y === voxel.y && v.z === voxel.z;
+
+  switch (tool) {
+    case 'add': {
+      const [nx, ny, nz] = FACE_NORMALS[face.side];
+      const target = { x: voxel.x + nx, y: voxel.y + ny, z: voxel.z + nz, i: colorIndex };
+      const { size } = model;
+      if (target.x < 0 || target.y < 0 || target.z < 0 || target.x >= size.x || target.y >= size.y || target.z >= size.z) {
+        return null;
+      }
+      if (model.voxels.some(v => v.x === target.x && v.y === target.y && v.z === target.z)) return null;
+      return { size, voxels: [...model.voxels, target], palette: withOpaqueColor(model.palette, colorIndex) };
+    }
+    case 'remove':
+      return { ...model, voxels: model.voxels.filter(v => !isTarget(v)) };
+    case 'paint': {
+      const current = model.voxels.find(isTarget);
+      if (!current || current.i === colorIndex) return null;
+      return {
+        size: model.size,
+        voxels: model.voxels.map(v => v === current ? { ...v, i: colorIndex } : v),
+        palette: withOpaqueColor(model.palette, colorIndex),
+      };
+    }
+  }
+}
+
+export function setPaletteColor(model: VoxModel, index: number, color: Omit<VoxColor, 'a'>): VoxModel {
+  const palette = model.palette.slice();
+  palette[index] = { ...color, a: 255 };
+  return { ...model, palette };
+}
@@ -0,0 +1,90 @@
+import type { SchematicOutput } from './schematic-utils';
+import { ANCHOR_COLOR_INDEX, decodeVox, encodeVox, isAnchorVoxel } from './vox-io';
+import { transformVoxels, type VoxTransform } from './vox-transform';
+
+export interface VoxImportOptions {
+  transform?: VoxTransform;
+  // Crops empty space around the model before the transform.
+  trim?: boolean;
+  // Places a dark anchor voxel at (0,0,0) if that corner is empty.
+  anchor?: boolean;
+}
+
+export interface VoxImportStats {
+  width: number;
+  height: number;
+  depth: number;
+  totalVoxels: number;
+  colorCount: number;
+}
+
+const ANCHOR_COLOR = { r: 10, g: 10, b: 10, a: 255 };
+
+/**
+ * Reads an existing .vox file and runs it through the same orientation and
+ * anchor handling as the generators. Only the first model of the file is used.
+ */
+export function importVox(data: Uint8Array, options: VoxImportOptions = {}): SchematicOutput & { stats: VoxImportStats } {
+  const model = decodeVox(data);
+  if (model.voxels.length === 0) {
+    throw new Error('The .vox file does not contain any voxels.');
+  }
+
+  // File space (z up) to model space (y up).
+  let voxels = model.voxels.map(v => ({ x: v.x, y: v.z, z: v.y, i: v.i }));
+  let dims = { width: model.size.x, height: model.size.z, depth: model.size.y };
+
+  if (options.trim) {
+    const min = { x: Infinity, y: Infinity, z: Infinity };
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+    for (const v of voxels) {
+      min.x = Math.min(min.x, v.x); max.x = Math.max(max.x, v.x);
+      min.y = Math.min(min.y, v.y); max.y = Math.max(max.y, v.y);
+      min.z = Math.min(min.z, v.z); max.z = Math.max(max.z, v.z);
+    }
+    voxels = voxels.map(v => ({ ...v, x: v.x - min.x, y: v.y - min.y, z: v.z - min.z }));
+    dims = { width: max.x - min.x + 1, height: max.y - min.y + 1, depth: max.z - min.z + 1 };
+  }
+
+  const transformed = transformVoxels(voxels, dims, options.transform);
+  const { width, height, depth } = transformed;
+  voxels = transformed.voxels;
+
+  const palette = model.palette.slice();
+  // A file written by this app may already carry its anchor.
+  const material = voxels.filter(v => !isAnchorVoxel(v));
+  const totalVoxels = material.length;
+  const colorCount = new Set(material.map(v => v.i)).size;
+
+  if (options.anchor && !voxels.some(v => v.x === 0 && v.y === 0 && v.z === 0)) {
+    // Same convention as the generators, so the exports leave it out. The anchor
+    // only gets the dark colour when the model itself doesn't use that entry.
+    if (!voxels.some(v => v.i === ANCHOR_COLOR_INDEX)) {
+      while (palette.length <= ANCHOR_COLOR_INDEX) {
+        palette.push({ r: 0, g: 0, b: 0, a: 0 });
+      }
+      palette[ANCHOR_COLOR_INDEX] = ANCHOR_COLOR;
+    }
+    voxels.push({ x: 0, y: 0, z: 0, i: ANCHOR_COLOR_INDEX });
+  }
+
+  const voxSize = { x: width, y: depth, z: height };
+  const voxData = encodeVox({
+    size: voxSize,
+    voxels: voxels.map(v => ({ x: v.x, y: v.z, z: v.y, i: v.i })),
+    palette,
+  });
+
+  return {
+    schematicData: `Schematic: Imported VOX (${width}x${height}x${depth})`,
+    width,
+    height,
+    depth,
+    pixels: [],
+    isVox: true,
+    voxData,
+    voxSize,
+    totalVoxels,
+    stats: { width, height, depth, totalVoxels, colorCount },
+  };
+}
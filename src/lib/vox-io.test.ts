@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ANCHOR_COLOR_INDEX, decodeVox, encodeVox, isAnchorVoxel, MAX_VOX_SIZE, type VoxModel } from './vox-io';
+
+const palette = Array.from({ length: 256 }, (_, i) => ({ r: i, g: 255 - i, b: i % 16, a: i ? 255 : 0 }));
+
+describe('encodeVox', () => {
+  it('returns a Uint8Array that decodes to the same model', () => {
+    const model: VoxModel = {
+      size: { x: 3, y: 4, z: 5 },
+      voxels: [
+        { x: 0, y: 0, z: 0, i: ANCHOR_COLOR_INDEX },
+        { x: 2, y: 3, z: 4, i: 1 },
+        { x: 1, y: 0, z: 2, i: 255 },
+      ],
+      palette,
+    };
+
+    const data = encodeVox(model);
+
+    expect(data).toBeInstanceOf(Uint8Array);
+    expect(decodeVox(data)).toEqual(model);
+  });
+
+  it('keeps coordinates at the far edge of the largest model', () => {
+    const model: VoxModel = {
+      size: { x: MAX_VOX_SIZE, y: MAX_VOX_SIZE, z: MAX_VOX_SIZE },
+      voxels: [{ x: MAX_VOX_SIZE - 1, y: MAX_VOX_SIZE - 1, z: MAX_VOX_SIZE - 1, i: 1 }],
+      palette,
+    };
+
+    expect(decodeVox(encodeVox(model)).voxels).toEqual(model.voxels);
+  });
+
+  it('rejects models longer than 256 voxels on any side', () => {
+    for (const size of [{ x: 257, y: 1, z: 1 }, { x: 1, y: 257, z: 1 }, { x: 1, y: 1, z: 257 }]) {
+      expect(() => encodeVox({ size, voxels: [], palette })).toThrow(/at most 256 per side/);
+    }
+  });
+});
+
+describe('isAnchorVoxel', () => {
+  it('only matches the anchor colour at the origin', () => {
+    expect(isAnchorVoxel({ x: 0, y: 0, z: 0, i: ANCHOR_COLOR_INDEX })).toBe(true);
+    expect(isAnchorVoxel({ x: 0, y: 0, z: 0, i: 1 })).toBe(false);
+    expect(isAnchorVoxel({ x: 0, y: 0, z: 31, i: ANCHOR_COLOR_INDEX })).toBe(false);
+    expect(isAnchorVoxel({ x: 5, y: 0, z: 0, i: ANCHOR_COLOR_INDEX })).toBe(false);
+  });
+});
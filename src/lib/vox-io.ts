@@ -0,0 +1,106 @@
+const readVox = require('vox-reader');
+const writeVox = require('vox-saver');
+
+export type VoxColor = { r: number, g: number, b: number, a: number };
+export type VoxVoxel = { x: number, y: number, z: number, i: number };
+
+/**
+ * A single .vox model in file space: x - width, y - depth, z - height (up).
+ * The palette is kept exactly as stored, so re-encoding preserves the colours.
+ */
+export interface VoxModel {
+  size: { x: number, y: number, z: number };
+  voxels: VoxVoxel[];
+  palette: VoxColor[];
+}
+
+const PALETTE_SIZE = 256;
+
+// The XYZI chunk stores each coordinate in one byte, so no side of a model can be longer.
+export const MAX_VOX_SIZE = 256;
+
+// Generators mark the model origin with a voxel of this colour. It only aligns the
+// model in the Automatic Chiselling mod and is not part of the shape.
+export const ANCHOR_COLOR_INDEX = 2;
+
+/**
+ * The anchor is the voxel of ANCHOR_COLOR_INDEX at (0,0,0). Voxels of that colour
+ * anywhere else are ordinary material. The origin is the same in file and model space.
+ */
+export function isAnchorVoxel(v: VoxVoxel): boolean {
+  return v.x === 0 && v.y === 0 && v.z === 0 && v.i === ANCHOR_COLOR_INDEX;
+}
+
+/**
+ * MagicaVoxel's built-in palette, used by files without an RGBA chunk: a 6x6x6
+ * colour cube without black, followed by red, green, blue and grey ramps.
+ */
+function createDefaultPalette(): VoxColor[] {
+  const palette: VoxColor[] = [{ r: 0, g: 0, b: 0, a: 0 }];
+  const levels = [0xff, 0xcc, 0x99, 0x66, 0x33, 0x00];
+  for (const r of levels) {
+    for (const g of levels) {
+      for (const b of levels) {
+        if (r || g || b) palette.push({ r, g, b, a: 255 });
+      }
+    }
+  }
+  const ramp = [0xee, 0xdd, 0xbb, 0xaa, 0x88, 0x77, 0x55, 0x44, 0x22, 0x11];
+  ramp.forEach(v => palette.push({ r: v, g: 0, b: 0, a: 255 }));
+  ramp.forEach(v => palette.push({ r: 0, g: v, b: 0, a: 255 }));
+  ramp.forEach(v => palette.push({ r: 0, g: 0, b: v, a: 255 }));
+  ramp.forEach(v => palette.push({ r: v, g: v, b: v, a: 255 }));
+  return palette;
+}
+
+const DEFAULT_PALETTE = createDefaultPalette();
+
+// vox-reader returns a single object per chunk type, or an array when the chunk repeats.
+function firstChunk<T>(chunk: T | T[] | undefined): T | undefined {
+  return Array.isArray(chunk) ? chunk[0] : chunk;
+}
+
+export function decodeVox(data: Uint8Array): VoxModel {
+  let parsed;
+  try {
+    parsed = readVox(data);
+  } catch (e) {
+    throw new Error(`Invalid .vox file: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const size = firstChunk<VoxModel['size']>(parsed.size);
+  const xyzi = firstChunk<{ values: VoxVoxel[] }>(parsed.xyzi);
+  if (!size || !xyzi) {
+    throw new Error('The .vox file does not contain a model.');
+  }
+  const rgba = firstChunk<{ values: VoxColor[] }>(parsed.rgba);
+
+  return {
+    size: { x: size.x, y: size.y, z: size.z },
+    voxels: xyzi.values.map(v => ({ x: v.x, y: v.y, z: v.z, i: v.i })),
+    palette: rgba ? rgba.values : DEFAULT_PALETTE.map(color => ({ ...color })),
+  };
+}
+
+export function encodeVox(model: VoxModel): Uint8Array {
+  const { x, y, z } = model.size;
+  if (x > MAX_VOX_SIZE || y > MAX_VOX_SIZE || z > MAX_VOX_SIZE) {
+    // Larger coordinates would wrap around and land in the wrong place.
+    throw new Error(`The model is ${x}x${y}x${z} voxels, a .vox file holds at most ${MAX_VOX_SIZE} per side.`);
+  }
+
+  const palette = model.palette.slice(0, PALETTE_SIZE);
+  while (palette.length < PALETTE_SIZE) {
+    palette.push({ r: 0, g: 0, b: 0, a: 0 });
+  }
+
+  // vox-saver returns the bytes as a plain array of numbers.
+  return Uint8Array.from(writeVox({
+    size: model.size,
+    xyzi: {
+      numVoxels: model.voxels.length,
+      values: model.voxels,
+    },
+    rgba: { values: palette },
+  }));
+}
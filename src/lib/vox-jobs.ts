@@ -0,0 +1,60 @@
+import { voxToSchematic, type ProgressCallback, type VoxGenerationResult, type VoxShape } from './schematic-utils';
+import { VoxTransformSchema, type VoxTransform } from './vox-transform';
+import { generateTextToVox, type TextToVoxInput } from './text-to-vox';
+import { generatePixelArtToVox, type PixelArtToVoxInput } from './pixelart-to-vox';
+import { generateSignToVox, type SignToVoxInput } from './sign-to-vox';
+import { generateHeightmapToVox, type HeightmapToVoxInput } from './heightmap-to-vox';
+import { generateSilhouetteToVox, type SilhouetteToVoxInput } from './silhouette-to-vox';
+import { generateMeshToVox, type MeshToVoxInput } from './mesh-voxelizer';
+
+/**
+ * One .vox generation request. Each kind takes the same input as its server action;
+ * meshes are only voxelized here, the import tab does the rest.
+ */
+export type VoxJob =
+  | { kind: 'shape', shape: VoxShape, transform?: VoxTransform }
+  | { kind: 'text', input: TextToVoxInput }
+  | { kind: 'pixelart', input: PixelArtToVoxInput }
+  | { kind: 'sign', input: SignToVoxInput }
+  | { kind: 'heightmap', input: HeightmapToVoxInput }
+  | { kind: 'silhouette', input: SilhouetteToVoxInput }
+  | { kind: 'mesh', input: MeshToVoxInput };
+
+// Messages posted by vox.worker.ts.
+export type VoxWorkerMessage =
+  | { type: 'progress', progress: number }
+  | { type: 'result', result: VoxGenerationResult }
+  | { type: 'error', error: string };
+
+export async function runVoxJob(job: VoxJob, onProgress?: ProgressCallback): Promise<VoxGenerationResult> {
+  switch (job.kind) {
+    case 'shape': {
+      const result = voxToSchematic(job.shape, VoxTransformSchema.optional().parse(job.transform), onProgress);
+      if (!result.voxData || !result.voxSize) {
+        throw new Error('Flow did not return valid vox data.');
+      }
+      return {
+        schematicData: result.schematicData,
+        width: result.width,
+        height: result.height,
+        depth: result.depth,
+        isVox: true,
+        voxData: result.voxData,
+        voxSize: result.voxSize,
+        totalVoxels: result.totalVoxels,
+      };
+    }
+    case 'text':
+      return generateTextToVox(job.input, onProgress);
+    case 'pixelart':
+      return generatePixelArtToVox(job.input, onProgress);
+    case 'sign':
+      return generateSignToVox(job.input, onProgress);
+    case 'heightmap':
+      return generateHeightmapToVox(job.input, onProgress);
+    case 'silhouette':
+      return generateSilhouetteToVox(job.input, onProgress);
+    case 'mesh':
+      return generateMeshToVox(job.input, onProgress);
+  }
+}
@@ -0,0 +1,202 @@
+import JSZip from 'jszip';
+import { decodeVox, isAnchorVoxel, type VoxColor } from './vox-io';
+
+type Vec3 = [number, number, number];
+
+/**
+ * One merged face of the voxel surface in file space (z up). Corners are
+ * counter-clockwise when seen from outside the model.
+ */
+export interface MeshQuad {
+  corners: [Vec3, Vec3, Vec3, Vec3];
+  normal: Vec3;
+  colorIndex: number;
+}
+
+/**
+ * Builds the outer surface of a .vox model with greedy meshing: faces between
+ * filled and empty voxels are merged into the largest same-colour rectangles.
+ * The anchor voxel is left out, it is not part of the shape.
+ */
+export function greedyMesh(voxData: Uint8Array): { quads: MeshQuad[], palette: VoxColor[] } {
+  const model = decodeVox(voxData);
+  const dims: Vec3 = [model.size.x, model.size.y, model.size.z];
+  const grid = new Uint8Array(dims[0] * dims[1] * dims[2]);
+  const at = (p: Vec3) => {
+    if (p[0] < 0 || p[1] < 0 || p[2] < 0 || p[0] >= dims[0] || p[1] >= dims[1] || p[2] >= dims[2]) return 0;
+    return grid[(p[2] * dims[1] + p[1]) * dims[0] + p[0]];
+  };
+  for (const v of model.voxels) {
+    if (isAnchorVoxel(v)) continue;
+    grid[(v.z * dims[1] + v.y) * dims[0] + v.x] = v.i;
+  }
+
+  const quads: MeshQuad[] = [];
+  for (let d = 0; d < 3; d++) {
+    // u and v follow d cyclically, so u x v points along +d.
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const mask = new Uint8Array(dims[u] * dims[v]);
+
+    for (const side of [1, -1]) {
+      const normal: Vec3 = [0, 0, 0];
+      normal[d] = side;
+
+      for (let slice = 0; slice < dims[d]; slice++) {
+        const p: Vec3 = [0, 0, 0];
+        const q: Vec3 = [0, 0, 0];
+        p[d] = slice;
+        q[d] = slice + side;
+        for (let j = 0; j < dims[v]; j++) {
+          for (let i = 0; i < dims[u]; i++) {
+            p[u] = q[u] = i;
+            p[v] = q[v] = j;
+            const color = at(p);
+            mask[j * dims[u] + i] = color && !at(q) ? color : 0;
+          }
+        }
+
+        const plane = side > 0 ? slice + 1 : slice;
+        for (let j = 0; j < dims[v]; j++) {
+          for (let i = 0; i < dims[u];) {
+            const color = mask[j * dims[u] + i];
+            if (!color) {
+              i++;
+              continue;
+            }
+
+            let w = 1;
+            while (i + w < dims[u] && mask[j * dims[u] + i + w] === color) w++;
+            let h = 1;
+            grow: while (j + h < dims[v]) {
+              for (let k = 0; k < w; k++) {
+                if (mask[(j + h) * dims[u] + i + k] !== color) break grow;
+              }
+              h++;
+            }
+            for (let y = 0; y < h; y++) {
+              mask.fill(0, (j + y) * dims[u] + i, (j + y) * dims[u] + i + w);
+            }
+
+            const corner = (cu: number, cv: number): Vec3 => {
+              const c: Vec3 = [0, 0, 0];
+              c[d] = plane;
+              c[u] = cu;
+              c[v] = cv;
+              return c;
+            };
+            const a = corner(i, j), b = corner(i + w, j), c = corner(i + w, j + h), e = corner(i, j + h);
+            quads.push({
+              corners: side > 0 ? [a, b, c, e] : [a, e, c, b],
+              normal,
+              colorIndex: color,
+            });
+            i += w;
+          }
+        }
+      }
+    }
+  }
+
+  return { quads, palette: model.palette };
+}
+
+const materialName = (index: number) => `color_${index}`;
+
+/**
+ * Writes the model as an OBJ with a material per palette colour. The OBJ is Y-up,
+ * one unit per voxel, which is what Blender's importer expects by default.
+ */
+export function voxToObj(voxData: Uint8Array, mtlFileName = 'schematic.mtl'): { obj: string, mtl: string } {
+  const { quads, palette } = greedyMesh(voxData);
+
+  const vertexIds = new Map<string, number>();
+  const vertexLines: string[] = [];
+  const vertexId = ([x, y, z]: Vec3) => {
+    // File space (z up) to Y-up, keeping the handedness.
+    const key = `${x} ${z} ${-y}`;
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      vertexLines.push(`v ${key}`);
+      id = vertexLines.length;
+      vertexIds.set(key, id);
+    }
+    return id;
+  };
+
+  const normals: string[] = [];
+  const normalId = ([x, y, z]: Vec3) => {
+    const line = `vn ${x} ${z} ${-y}`;
+    const index = normals.indexOf(line);
+    if (index >= 0) return index + 1;
+    normals.push(line);
+    return normals.length;
+  };
+
+  const facesByColor = new Map<number, string[]>();
+  for (const quad of quads) {
+    const n = normalId(quad.normal);
+    const ids = quad.corners.map(vertexId);
+    const faces = facesByColor.get(quad.colorIndex) ?? [];
+    faces.push(`f ${ids.map(id => `${id}//${n}`).join(' ')}`);
+    facesByColor.set(quad.colorIndex, faces);
+  }
+
+  const objLines = [`mtllib ${mtlFileName}`, 'o schematic', ...vertexLines, ...normals];
+  const mtlLines: string[] = [];
+  for (const [colorIndex, faces] of [...facesByColor.entries()].sort((a, b) => a[0] - b[0])) {
+    const color = palette[colorIndex] ?? { r: 255, g: 255, b: 255, a: 255 };
+    mtlLines.push(
+      `newmtl ${materialName(colorIndex)}`,
+      `Kd ${(color.r / 255).toFixed(4)} ${(color.g / 255).toFixed(4)} ${(color.b / 255).toFixed(4)}`,
+      'Ka 0 0 0',
+      'Ks 0 0 0',
+      'illum 1',
+      '',
+    );
+    objLines.push(`usemtl ${materialName(colorIndex)}`, ...faces);
+  }
+
+  return { obj: objLines.join('\n') + '\n', mtl: mtlLines.join('\n') };
+}
+
+/**
+ * Writes the model as a binary STL, Z-up with one millimetre per voxel.
+ * STL has no colours, so the whole surface becomes a single mesh.
+ */
+export function voxToStl(voxData: Uint8Array): Uint8Array<ArrayBuffer> {
+  const { quads } = greedyMesh(voxData);
+  const triangleCount = quads.length * 2;
+  const buffer = new Uint8Array(84 + triangleCount * 50);
+  const view = new DataView(buffer.buffer);
+
+  buffer.set(new TextEncoder().encode('Helper for Chiselling schematic'));
+  view.setUint32(80, triangleCount, true);
+
+  let offset = 84;
+  const writeVec = (vec: Vec3) => {
+    vec.forEach(value => {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    });
+  };
+  for (const { corners: [a, b, c, d], normal } of quads) {
+    for (const triangle of [[a, b, c], [a, c, d]]) {
+      writeVec(normal);
+      triangle.forEach(writeVec);
+      offset += 2; // Attribute byte count.
+    }
+  }
+  return buffer;
+}
+
+/**
+ * Packs the OBJ and its material library into one archive so the colours survive the download.
+ */
+export async function createObjArchive(voxData: Uint8Array): Promise<Blob> {
+  const { obj, mtl } = voxToObj(voxData);
+  const zip = new JSZip();
+  zip.file('schematic.obj', obj);
+  zip.file('schematic.mtl', mtl);
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,83 @@
+import type { VoxColor, VoxModel, VoxVoxel } from './vox-io';
+
+const BLOCK_SIZE = 16;
+
+// Model space: x - width, y - height (up), z - depth.
+export type SectionAxis = 'x' | 'y' | 'z';
+
+export interface SectionOptions {
+  axis: SectionAxis;
+  // Number of layers kept along the axis, counted from 0.
+  position: number;
+  // Shows only the last kept layer instead of everything up to it.
+  singleLayer?: boolean;
+}
+
+export interface PreviewOptions {
+  section?: SectionOptions | null;
+  // Tints every other 16x16x16 block so block seams are visible.
+  blockGrid?: boolean;
+}
+
+export function modelLayerCount(model: VoxModel, axis: SectionAxis): number {
+  return axis === 'x' ? model.size.x : axis === 'y' ? model.size.z : model.size.y;
+}
+
+function layerOf(voxel: VoxVoxel, axis: SectionAxis): number {
+  // File space has z up and y as depth.
+  return axis === 'x' ? voxel.x : axis === 'y' ? voxel.z : voxel.y;
+}
+
+function shade(color: VoxColor): VoxColor {
+  const luminance = 0.299 * color.r + 0.587 * color.g + 0.114 * color.b;
+  // Dark colours are lightened instead, otherwise the tint would not show.
+  const adjust = luminance < 80
+    ? (value: number) => Math.min(255, value + 60)
+    : (value: number) => Math.round(value * 0.7);
+  return { r: adjust(color.r), g: adjust(color.g), b: adjust(color.b), a: color.a };
+}
+
+/**
+ * Builds the model shown by the 3D preview: clipped along one axis and/or with
+ * alternating blocks tinted. The size is kept so the camera does not jump.
+ */
+export function buildPreviewModel(model: VoxModel, options: PreviewOptions): VoxModel {
+  const { section, blockGrid } = options;
+  let voxels = model.voxels;
+  let palette = model.palette;
+
+  if (section) {
+    const last = section.position - 1;
+    voxels = voxels.filter(v => {
+      const layer = layerOf(v, section.axis);
+      return section.singleLayer ? layer === last : layer <= last;
+    });
+  }
+
+  if (blockGrid) {
+    // Every used colour gets a shaded twin in a free palette slot, as far as slots last.
+    const used = new Set(voxels.map(v => v.i));
+    const free: number[] = [];
+    for (let i = 255; i > 0; i--) {
+      if (!used.has(i)) free.push(i);
+    }
+    palette = palette.slice();
+    while (palette.length < 256) palette.push({ r: 0, g: 0, b: 0, a: 0 });
+
+    const twins = new Map<number, number>();
+    for (const index of used) {
+      const twin = free.pop();
+      if (twin === undefined) break;
+      palette[twin] = shade(palette[index] ?? { r: 255, g: 255, b: 255, a: 255 });
+      twins.set(index, twin);
+    }
+
+    voxels = voxels.map(v => {
+      const parity = (Math.floor(v.x / BLOCK_SIZE) + Math.floor(v.y / BLOCK_SIZE) + Math.floor(v.z / BLOCK_SIZE)) % 2;
+      const twin = twins.get(v.i);
+      return parity === 1 && twin !== undefined ? { ...v, i: twin } : v;
+    });
+  }
+
+  return { size: model.size, voxels, palette };
+}
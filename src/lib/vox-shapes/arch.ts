@@ -0,0 +1,134 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+export type ArchParams = {
+  type: 'arch',
+  archType: 'rectangular' | 'rounded' | 'circular',
+  width: number,
+  depth: number,
+  // Rectangular and rounded arches.
+  height?: number,
+  outerCornerRadius?: number,
+  // Circular arches (hoops), which are half as high as they are wide.
+  thickness?: number,
+  orientation?: 'top' | 'bottom',
+};
+
+const isCircular = (params: ArchParams) => params.archType === 'circular';
+
+export const arch = defineVoxShape<ArchParams>({
+  type: 'arch',
+  label: 'voxGenerator.shapes.arch',
+  params: {
+    archType: {
+      type: 'choice',
+      label: 'voxGenerator.arch.archType',
+      default: 'rectangular',
+      display: 'radio',
+      options: [
+        { value: 'rectangular', label: 'voxGenerator.arch.types.rectangular' },
+        { value: 'rounded', label: 'voxGenerator.arch.types.rounded' },
+        { value: 'circular', label: 'voxGenerator.arch.types.circular' },
+      ],
+    },
+    width: {
+      type: 'integer',
+      label: 'voxGenerator.dims.width',
+      default: 16,
+      hint: params => isCircular(params)
+        ? { text: 'voxGenerator.arch.heightInfo', value: Math.floor(params.width / 2) || 0 }
+        : null,
+    },
+    height: { type: 'integer', label: 'voxGenerator.dims.height', default: 16, visible: params => !isCircular(params) },
+    depth: { type: 'integer', label: 'voxGenerator.dims.depth', default: 8 },
+    thickness: { type: 'integer', label: 'voxGenerator.dims.thickness', default: 4, visible: isCircular },
+    orientation: {
+      type: 'choice',
+      label: 'voxGenerator.arch.orientation',
+      default: 'top',
+      options: [
+        { value: 'top', label: 'voxGenerator.arch.orientations.top' },
+        { value: 'bottom', label: 'voxGenerator.arch.orientations.bottom' },
+      ],
+      visible: isCircular,
+    },
+    outerCornerRadius: {
+      type: 'slider',
+      label: 'voxGenerator.arch.outerRadius',
+      default: 4,
+      min: 1,
+      max: ({ width }) => Math.max(1, Math.floor(width / 2)),
+      visible: params => params.archType === 'rounded',
+    },
+  },
+  validate: (params) => {
+    if (isCircular(params) && (params.thickness ?? 0) >= params.width / 2) {
+      return { param: 'thickness', message: 'voxGenerator.errors.thicknessTooLarge' };
+    }
+    if (params.archType === 'rounded' && (params.outerCornerRadius ?? 0) > params.width / 2) {
+      return { param: 'outerCornerRadius', message: 'voxGenerator.errors.radiusTooLarge' };
+    }
+    return null;
+  },
+  generate: (params, onProgress) => {
+    const grid = new VoxelGrid();
+    const { width, depth } = params;
+    let height: number;
+
+    if (params.archType === 'circular') {
+      const outerRadius = width / 2;
+      height = Math.floor(outerRadius);
+      const innerRadius = outerRadius - (params.thickness ?? 1);
+      const centerX = (width - 1) / 2.0;
+
+      for (let z = 0; z < depth; z++) {
+        onProgress?.(z / depth);
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const dx = x - centerX;
+            const dy = params.orientation === 'top' ? y - (height - 1) : -y;
+            const distSq = dx * dx + dy * dy;
+            if (distSq <= outerRadius * outerRadius && distSq > innerRadius * innerRadius) {
+              grid.set(x, y, z, 1);
+            }
+          }
+        }
+      }
+      return { grid, width, height, depth };
+    }
+
+    height = params.height ?? width;
+    const innerOpeningRadius = width / 2.0;
+    const centerX = (width - 1) / 2.0;
+    const outerCornerRadius = params.archType === 'rounded' ? params.outerCornerRadius ?? 0 : 0;
+
+    // Rounds off the top corner whose centre is at cornerX.
+    const outsideCorner = (x: number, y: number, cornerX: number) => {
+      const dx = x - cornerX;
+      const dy = y - (height - outerCornerRadius);
+      return dx * dx + dy * dy >= outerCornerRadius * outerCornerRadius;
+    };
+
+    for (let y = 0; y < height; y++) {
+      onProgress?.(y / height);
+      for (let z = 0; z < depth; z++) {
+        for (let x = 0; x < width; x++) {
+          // Carve out the inner arch above the start of its curve.
+          if (y >= height - innerOpeningRadius) {
+            const innerDx = x - centerX;
+            const innerDy = y - (height - innerOpeningRadius);
+            if (innerDx * innerDx + innerDy * innerDy < innerOpeningRadius * innerOpeningRadius) continue;
+          }
+
+          if (outerCornerRadius > 0 && y >= height - outerCornerRadius) {
+            if (x < outerCornerRadius && outsideCorner(x, y, outerCornerRadius)) continue;
+            if (x >= width - outerCornerRadius && outsideCorner(x, y, width - outerCornerRadius)) continue;
+          }
+
+          grid.set(x, y, z, 1);
+        }
+      }
+    }
+    return { grid, width, height, depth };
+  },
+});
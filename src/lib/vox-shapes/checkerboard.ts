@@ -0,0 +1,36 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+// Sizes are in blocks of 16 voxels.
+export type CheckerboardParams = { type: 'checkerboard', width: number, length: number, height: number };
+
+const VOXEL_SIZE = 16;
+
+export const checkerboard = defineVoxShape<CheckerboardParams>({
+  type: 'checkerboard',
+  label: 'voxGenerator.shapes.checkerboard',
+  params: {},
+  hidden: true,
+  generate: ({ width: blockWidth, length: blockLength, height: blockHeight }, onProgress) => {
+    const grid = new VoxelGrid();
+    for (let by = 0; by < blockHeight; by++) {
+      onProgress?.(by / blockHeight);
+      for (let bz = 0; bz < blockLength; bz++) {
+        for (let bx = 0; bx < blockWidth; bx++) {
+          if ((bx + by + bz) % 2 !== 0) continue;
+          const startX = bx * VOXEL_SIZE;
+          const startY = by * VOXEL_SIZE;
+          const startZ = bz * VOXEL_SIZE;
+          for (let y = startY; y < startY + VOXEL_SIZE; y++) {
+            for (let z = startZ; z < startZ + VOXEL_SIZE; z++) {
+              for (let x = startX; x < startX + VOXEL_SIZE; x++) {
+                grid.set(x, y, z, 1);
+              }
+            }
+          }
+        }
+      }
+    }
+    return { grid, width: blockWidth * VOXEL_SIZE, height: blockHeight * VOXEL_SIZE, depth: blockLength * VOXEL_SIZE };
+  },
+});
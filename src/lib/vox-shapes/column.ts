@@ -0,0 +1,198 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+type Point = { x: number, y: number, z: number };
+
+export type ColumnParams = {
+  type: 'column',
+  radius: number,
+  height: number,
+  withBase?: boolean,
+  withCapital?: boolean,
+  baseStyle?: 'simple' | 'decorative',
+  baseRadius?: number,
+  baseHeight?: number,
+  brokenTop?: boolean,
+  breakAngleX?: number,
+  breakAngleZ?: number,
+  withDebris?: boolean,
+  debrisLength?: number,
+};
+
+const generateCylinder = (radius: number, height: number) => {
+  const voxels: Point[] = [];
+  const rSq = radius * radius;
+  for (let y = 0; y < height; y++) {
+    for (let z = 0; z < radius * 2; z++) {
+      for (let x = 0; x < radius * 2; x++) {
+        const dx = x - (radius - 0.5);
+        const dz = z - (radius - 0.5);
+        if (dx * dx + dz * dz <= rSq) {
+          voxels.push({ x, y, z });
+        }
+      }
+    }
+  }
+  return voxels;
+};
+
+// A cylinder with a one voxel wider flare at the bottom and the top.
+const generateDecorativeCylinder = (baseRadius: number, baseHeight: number) => {
+  const voxels: Point[] = [];
+  const mainHeight = Math.max(1, baseHeight - 2);
+  const flareHeight = 1;
+
+  generateCylinder(baseRadius, flareHeight).forEach(v => voxels.push(v));
+
+  const mainRadius = Math.max(1, baseRadius - 1);
+  const mainOffset = Math.floor((baseRadius * 2 - mainRadius * 2) / 2);
+  generateCylinder(mainRadius, mainHeight).forEach(v => voxels.push({ x: v.x + mainOffset, y: v.y + flareHeight, z: v.z + mainOffset }));
+
+  generateCylinder(baseRadius, flareHeight).forEach(v => voxels.push({ x: v.x, y: v.y + mainHeight + flareHeight, z: v.z }));
+  return voxels;
+};
+
+const hasBaseOrCapital = (params: ColumnParams) => (!!params.withBase || !!params.withCapital) && !params.brokenTop;
+
+export const column = defineVoxShape<ColumnParams>({
+  type: 'column',
+  label: 'voxGenerator.shapes.column',
+  params: {
+    radius: { type: 'integer', label: 'voxGenerator.dims.radius', default: 8 },
+    height: { type: 'integer', label: 'voxGenerator.dims.height', default: 64 },
+    withBase: { type: 'boolean', label: 'voxGenerator.column.withBase', default: false },
+    withCapital: {
+      type: 'boolean',
+      label: 'voxGenerator.column.withCapital',
+      default: false,
+      disabled: params => !!params.brokenTop,
+    },
+    baseStyle: {
+      type: 'choice',
+      label: 'voxGenerator.column.baseStyle',
+      default: 'simple',
+      display: 'radio',
+      options: [
+        { value: 'simple', label: 'voxGenerator.column.styles.simple' },
+        { value: 'decorative', label: 'voxGenerator.column.styles.decorative' },
+      ],
+      visible: hasBaseOrCapital,
+    },
+    baseRadius: {
+      type: 'integer',
+      label: 'voxGenerator.column.baseRadius',
+      default: 10,
+      visible: hasBaseOrCapital,
+    },
+    baseHeight: {
+      type: 'integer',
+      label: 'voxGenerator.column.baseHeight',
+      default: 4,
+      visible: hasBaseOrCapital,
+    },
+    brokenTop: {
+      type: 'boolean',
+      label: 'voxGenerator.column.brokenTop',
+      default: false,
+      excludes: ['withCapital'],
+    },
+    breakAngleX: {
+      type: 'slider',
+      label: 'voxGenerator.column.breakAngleX',
+      default: 20,
+      min: -45,
+      max: 45,
+      unit: '°',
+      visible: params => !!params.brokenTop,
+    },
+    breakAngleZ: {
+      type: 'slider',
+      label: 'voxGenerator.column.breakAngleZ',
+      default: -15,
+      min: -45,
+      max: 45,
+      unit: '°',
+      visible: params => !!params.brokenTop,
+    },
+    withDebris: {
+      type: 'boolean',
+      label: 'voxGenerator.column.withDebris',
+      default: false,
+      visible: params => !!params.brokenTop,
+    },
+    debrisLength: {
+      type: 'integer',
+      label: 'voxGenerator.column.debrisLength',
+      default: 16,
+      visible: params => !!params.brokenTop && !!params.withDebris,
+    },
+  },
+  crashRisk: (params) => {
+    const { radius, baseRadius = 0 } = params;
+    return (radius > 0 && radius % 8 === 0) || ((!!params.withBase || !!params.withCapital) && baseRadius > 0 && baseRadius % 8 === 0);
+  },
+  generate: (params, onProgress) => {
+    const { radius: colRadius, height: totalHeight, withBase = false, brokenTop = false, baseStyle = 'simple' } = params;
+    const grid = new VoxelGrid();
+    const withCapital = brokenTop ? false : (params.withCapital ?? false);
+    const debrisLength = params.debrisLength ?? 0;
+    const baseRadius = params.baseRadius || Math.round(colRadius * 1.25);
+    const baseHeight = params.baseHeight || Math.max(1, Math.round(colRadius * 0.5));
+    const mainColWidth = Math.max(colRadius, baseRadius) * 2;
+
+    let mainColumnVoxels: Point[] = [];
+    const finalBaseH = withBase ? baseHeight : 0;
+    const finalCapitalH = withCapital ? baseHeight : 0;
+    const shaftHeight = totalHeight - finalBaseH - finalCapitalH;
+
+    const partGenerator = baseStyle === 'decorative' ? generateDecorativeCylinder : generateCylinder;
+
+    if (withBase) {
+      const baseOffset = Math.floor((mainColWidth - baseRadius * 2) / 2);
+      partGenerator(baseRadius, finalBaseH).forEach(v => mainColumnVoxels.push({ x: v.x + baseOffset, y: v.y, z: v.z + baseOffset }));
+    }
+    // The column is a few cylinders stacked up, so progress moves once per part.
+    onProgress?.(0.25);
+
+    const shaftOffset = Math.floor((mainColWidth - colRadius * 2) / 2);
+    generateCylinder(colRadius, shaftHeight).forEach(v => mainColumnVoxels.push({ x: v.x + shaftOffset, y: v.y + finalBaseH, z: v.z + shaftOffset }));
+    onProgress?.(0.5);
+
+    if (withCapital) {
+      const capitalOffset = Math.floor((mainColWidth - baseRadius * 2) / 2);
+      partGenerator(baseRadius, finalCapitalH).forEach(v => mainColumnVoxels.push({ x: v.x + capitalOffset, y: v.y + totalHeight - finalCapitalH, z: v.z + capitalOffset }));
+    }
+    onProgress?.(0.75);
+
+    const tanX = Math.tan((params.breakAngleX ?? 0) * Math.PI / 180);
+    const tanZ = Math.tan((params.breakAngleZ ?? 0) * Math.PI / 180);
+
+    if (brokenTop) {
+      const centerOffset = mainColWidth / 2 - 0.5;
+      mainColumnVoxels = mainColumnVoxels.filter(v => {
+        const breakPlaneY = totalHeight - ((v.x - centerOffset) * tanX + (v.z - centerOffset) * tanZ);
+        return v.y < breakPlaneY;
+      });
+    }
+
+    mainColumnVoxels.forEach(v => grid.set(v.x, v.y, v.z, 1));
+
+    if (brokenTop && params.withDebris && debrisLength > 0) {
+      // The broken-off piece lies on its side next to the column, break surface up.
+      const centerOffset = colRadius - 0.5;
+      const debris = generateCylinder(colRadius, debrisLength)
+        .filter(v => v.y >= -((v.x - centerOffset) * tanX + (v.z - centerOffset) * tanZ))
+        .map(v => ({ x: v.y, y: v.x, z: v.z }));
+      const minY = debris.reduce((min, v) => Math.min(min, v.y), debris.length > 0 ? Infinity : 0);
+      const debrisXOffset = mainColWidth + 4;
+      debris.forEach(v => grid.set(debrisXOffset + v.x, v.y - minY, v.z, 1));
+    }
+
+    return {
+      grid,
+      width: mainColWidth + (params.withDebris && brokenTop ? debrisLength + 4 : 0),
+      height: totalHeight,
+      depth: mainColWidth,
+    };
+  },
+});
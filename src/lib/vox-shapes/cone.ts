@@ -0,0 +1,33 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+export type ConeParams = { type: 'cone', radius: number, height: number };
+
+export const cone = defineVoxShape<ConeParams>({
+  type: 'cone',
+  label: 'voxGenerator.shapes.cone',
+  params: {
+    radius: { type: 'integer', label: 'voxGenerator.dims.baseRadius', default: 16 },
+    height: { type: 'integer', label: 'voxGenerator.dims.height', default: 16 },
+  },
+  generate: ({ radius, height }, onProgress) => {
+    const grid = new VoxelGrid();
+    const width = radius * 2;
+    const center = (width - 1) / 2.0;
+    for (let y = 0; y < height; y++) {
+      onProgress?.(y / height);
+      const ratio = (height > 1) ? (height - 1 - y) / (height - 1) : 0;
+      const currentRadius = radius * ratio;
+      for (let z = 0; z < width; z++) {
+        for (let x = 0; x < width; x++) {
+          const dx = x - center;
+          const dz = z - center;
+          if (dx * dx + dz * dz <= currentRadius * currentRadius) {
+            grid.set(x, y, z, 1);
+          }
+        }
+      }
+    }
+    return { grid, width, height, depth: width };
+  },
+});
@@ -0,0 +1,35 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+// A quarter cylinder for rounding off the corner of a wall, or the block left around one.
+export type CornerParams = { type: 'corner', radius: number, height: number, external: boolean, internal: boolean };
+
+export const corner = defineVoxShape<CornerParams>({
+  type: 'corner',
+  label: 'voxGenerator.shapes.corner',
+  params: {
+    radius: { type: 'integer', label: 'voxGenerator.dims.radius', default: 16 },
+    height: { type: 'integer', label: 'voxGenerator.dims.height', default: 16 },
+    external: { type: 'boolean', label: 'voxGenerator.corner.external', default: true, excludes: ['internal'] },
+    internal: { type: 'boolean', label: 'voxGenerator.corner.internal', default: false, excludes: ['external'] },
+  },
+  validate: ({ external, internal }) => !external && !internal
+    ? { param: 'external', message: 'voxGenerator.errors.noCornerType' }
+    : null,
+  generate: ({ radius, height, external, internal }, onProgress) => {
+    const grid = new VoxelGrid();
+    const rSq = radius * radius;
+    if (external || internal) {
+      for (let y = 0; y < height; y++) {
+        onProgress?.(y / height);
+        for (let z = 0; z < radius; z++) {
+          for (let x = 0; x < radius; x++) {
+            const inside = x * x + z * z <= rSq;
+            if (external ? inside : !inside) grid.set(x, y, z, 1);
+          }
+        }
+      }
+    }
+    return { grid, width: radius, height, depth: radius };
+  },
+});
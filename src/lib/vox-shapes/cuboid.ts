@@ -0,0 +1,26 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+export type CuboidParams = { type: 'cuboid', width: number, height: number, depth: number };
+
+export const cuboid = defineVoxShape<CuboidParams>({
+  type: 'cuboid',
+  label: 'voxGenerator.shapes.cuboid',
+  params: {
+    width: { type: 'integer', label: 'voxGenerator.dims.width', default: 16 },
+    height: { type: 'integer', label: 'voxGenerator.dims.height', default: 16 },
+    depth: { type: 'integer', label: 'voxGenerator.dims.depth', default: 16 },
+  },
+  generate: ({ width, height, depth }, onProgress) => {
+    const grid = new VoxelGrid();
+    for (let y = 0; y < height; y++) {
+      onProgress?.(y / height);
+      for (let z = 0; z < depth; z++) {
+        for (let x = 0; x < width; x++) {
+          grid.set(x, y, z, 1);
+        }
+      }
+    }
+    return { grid, width, height, depth };
+  },
+});
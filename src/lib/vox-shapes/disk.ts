@@ -0,0 +1,67 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+export type DiskParams = {
+  type: 'disk',
+  radius: number,
+  height: number,
+  part?: 'full' | 'half',
+  orientation: 'horizontal' | 'vertical',
+};
+
+export const disk = defineVoxShape<DiskParams>({
+  type: 'disk',
+  label: 'voxGenerator.shapes.disk',
+  params: {
+    radius: { type: 'integer', label: 'voxGenerator.dims.radius', default: 16 },
+    height: { type: 'integer', label: 'voxGenerator.dims.height', default: 1 },
+    part: {
+      type: 'choice',
+      label: 'voxGenerator.disk.type',
+      default: 'full',
+      display: 'radio',
+      options: [
+        { value: 'full', label: 'voxGenerator.disk.types.full' },
+        { value: 'half', label: 'voxGenerator.disk.types.half' },
+      ],
+    },
+    orientation: {
+      type: 'choice',
+      label: 'voxGenerator.disk.orientation',
+      default: 'horizontal',
+      options: [
+        { value: 'horizontal', label: 'voxGenerator.disk.orientations.horizontal' },
+        { value: 'vertical', label: 'voxGenerator.disk.orientations.vertical' },
+      ],
+    },
+  },
+  generate: ({ radius, height: diskHeight, part = 'full', orientation = 'horizontal' }, onProgress) => {
+    const grid = new VoxelGrid();
+    const vertical = orientation === 'vertical';
+    const width = vertical ? diskHeight : radius * 2;
+    const height = vertical ? radius * 2 : diskHeight;
+    const depth = radius * 2;
+
+    const centerX = (width - 1) / 2.0;
+    const centerY = (height - 1) / 2.0;
+    const centerZ = (depth - 1) / 2.0;
+
+    for (let y = 0; y < height; y++) {
+      onProgress?.(y / height);
+      for (let z = 0; z < depth; z++) {
+        for (let x = 0; x < width; x++) {
+          const da = vertical ? y - centerY : x - centerX;
+          const dz = z - centerZ;
+          if (da * da + dz * dz > radius * radius) continue;
+
+          if (part === 'full') {
+            grid.set(x, y, z, 1);
+          } else if (vertical ? y < centerY : z < centerZ) {
+            grid.set(x, y, z, 1);
+          }
+        }
+      }
+    }
+    return { grid, width, height, depth };
+  },
+});
@@ -0,0 +1,40 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+export type HaystackParams = { type: 'haystack', radius: number, height: number };
+
+export const haystack = defineVoxShape<HaystackParams>({
+  type: 'haystack',
+  label: 'voxGenerator.shapes.haystack',
+  params: {
+    radius: { type: 'integer', label: 'voxGenerator.dims.baseRadius', default: 8 },
+    height: { type: 'integer', label: 'voxGenerator.dims.height', default: 12 },
+  },
+  generate: ({ radius, height }, onProgress) => {
+    const grid = new VoxelGrid();
+    const center = radius - 0.5;
+
+    for (let y = 0; y < height; y++) {
+      onProgress?.(y / height);
+      const progress = y / (height - 1);
+      // Non-linear radius reduction for a more rounded shape
+      const currentRadius = radius * (1 - Math.pow(progress, 2.5));
+      const currentRadiusSq = currentRadius * currentRadius;
+
+      // Add some randomness to the center of each slice
+      const offsetX = (Math.random() - 0.5) * (radius / 8) * (1 - progress);
+      const offsetZ = (Math.random() - 0.5) * (radius / 8) * (1 - progress);
+
+      for (let z = 0; z < radius * 2; z++) {
+        for (let x = 0; x < radius * 2; x++) {
+          const dx = x - center + offsetX;
+          const dz = z - center + offsetZ;
+          if (dx * dx + dz * dz <= currentRadiusSq) {
+            grid.set(x, y, z, 1);
+          }
+        }
+      }
+    }
+    return { grid, width: radius * 2, height, depth: radius * 2 };
+  },
+});
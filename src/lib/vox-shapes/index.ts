@@ -0,0 +1,56 @@
+import type { VoxShapePlugin } from './registry';
+import { cuboid } from './cuboid';
+import { sphere } from './sphere';
+import { pyramid } from './pyramid';
+import { column } from './column';
+import { cone } from './cone';
+import { arch } from './arch';
+import { disk } from './disk';
+import { ring } from './ring';
+import { torus } from './torus';
+import { haystack } from './haystack';
+import { corner } from './corner';
+import { qrcode } from './qrcode';
+import { lathe } from './lathe';
+import { checkerboard } from './checkerboard';
+
+export * from './registry';
+
+const PLUGINS = [
+  cuboid,
+  sphere,
+  pyramid,
+  column,
+  cone,
+  arch,
+  disk,
+  ring,
+  torus,
+  haystack,
+  corner,
+  qrcode,
+  lathe,
+  checkerboard,
+];
+
+type ParamsOf<T> = T extends VoxShapePlugin<infer P> ? P : never;
+
+// Parameters of any registered shape, told apart by `type`.
+export type PluginShape = ParamsOf<typeof PLUGINS[number]>;
+
+// A plugin whose shape is only known at runtime, e.g. the one picked in the form.
+export type AnyVoxShapePlugin = VoxShapePlugin<PluginShape>;
+
+/**
+ * Every shape generator, in shape picker order. To add a shape, write a plugin
+ * with defineVoxShape() next to the others, add its texts to the voxGenerator section
+ * of src/locales and list it in PLUGINS; the picker, the parameter form and the
+ * generation worker all read this list.
+ */
+export const VOX_SHAPES: AnyVoxShapePlugin[] = PLUGINS;
+
+const shapesByType = new Map<string, AnyVoxShapePlugin>(VOX_SHAPES.map(shape => [shape.type, shape]));
+
+export function getVoxShape(type: string): AnyVoxShapePlugin | undefined {
+  return shapesByType.get(type);
+}
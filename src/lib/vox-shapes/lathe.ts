@@ -0,0 +1,64 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+export type LatheParams = {
+  type: 'lathe',
+  // A half cross-section: column 0 sits on the axis, row 0 is the top.
+  profile: boolean[],
+  profileWidth: number,
+  profileHeight: number,
+  sweepAngle?: number,
+  hollow?: boolean,
+  thickness?: number,
+};
+
+export const lathe = defineVoxShape<LatheParams>({
+  type: 'lathe',
+  label: 'voxGenerator.shapes.lathe',
+  params: {},
+  hidden: true,
+  generate: ({ profile, profileWidth, profileHeight, sweepAngle = 360, hollow = false, thickness = 1 }, onProgress) => {
+    const grid = new VoxelGrid();
+    const width = profileWidth * 2;
+    const height = profileHeight;
+    const center = profileWidth - 0.5;
+
+    const isFilled = (col: number, row: number) => {
+      if (row < 0 || row >= profileHeight || col >= profileWidth) return false;
+      // Mirror across the axis so the centre of the model is never treated as a surface.
+      return !!profile[row * profileWidth + Math.abs(col < 0 ? col + 1 : col)];
+    };
+
+    // A hollow profile keeps only the pixels within `thickness` of an empty pixel.
+    const isWall = (col: number, row: number) => {
+      if (!isFilled(col, row)) return false;
+      if (!hollow) return true;
+      for (let oy = -thickness; oy <= thickness; oy++) {
+        for (let ox = -thickness; ox <= thickness; ox++) {
+          if (!isFilled(col + ox, row + oy)) return true;
+        }
+      }
+      return false;
+    };
+
+    for (let y = 0; y < height; y++) {
+      onProgress?.(y / height);
+      const row = profileHeight - 1 - y;
+      for (let z = 0; z < width; z++) {
+        for (let x = 0; x < width; x++) {
+          const dx = x - center;
+          const dz = z - center;
+          const col = Math.floor(Math.sqrt(dx * dx + dz * dz));
+          if (!isWall(col, row)) continue;
+
+          if (sweepAngle < 360) {
+            const angle = (Math.atan2(dz, dx) * 180 / Math.PI + 360) % 360;
+            if (angle >= sweepAngle) continue;
+          }
+          grid.set(x, y, z, 1);
+        }
+      }
+    }
+    return { grid, width, height, depth: width };
+  },
+});
@@ -0,0 +1,29 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+export type PyramidParams = { type: 'pyramid', base: number, height: number };
+
+export const pyramid = defineVoxShape<PyramidParams>({
+  type: 'pyramid',
+  label: 'voxGenerator.shapes.pyramid',
+  params: {
+    base: { type: 'integer', label: 'voxGenerator.dims.baseSize', default: 16 },
+    height: { type: 'integer', label: 'voxGenerator.dims.height', default: 16 },
+  },
+  generate: ({ base, height }, onProgress) => {
+    const grid = new VoxelGrid();
+    const width = base;
+    for (let y = 0; y < height; y++) {
+      onProgress?.(y / height);
+      const ratio = (height > 1) ? (height - 1 - y) / (height - 1) : 1;
+      const levelWidth = Math.max(1, Math.round(width * ratio));
+      const offset = Math.floor((width - levelWidth) / 2);
+      for (let z = offset; z < offset + levelWidth; z++) {
+        for (let x = offset; x < offset + levelWidth; x++) {
+          grid.set(x, y, z, 1);
+        }
+      }
+    }
+    return { grid, width, height, depth: width };
+  },
+});
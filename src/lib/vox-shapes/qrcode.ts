@@ -0,0 +1,52 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+export type QrCodeParams = {
+  type: 'qrcode',
+  // Row-major modules, row 0 at the top.
+  pixels: boolean[],
+  size: number,
+  depth: number,
+  withBackdrop?: boolean,
+  backdropDepth?: number,
+  stickerMode?: boolean,
+};
+
+export const qrcode = defineVoxShape<QrCodeParams>({
+  type: 'qrcode',
+  label: 'voxGenerator.shapes.qrcode',
+  params: {},
+  hidden: true,
+  generate: ({ pixels, size, withBackdrop, backdropDepth, ...params }, onProgress) => {
+    const grid = new VoxelGrid();
+    const qrDepth = params.depth ?? 1;
+    const width = size;
+    const height = size;
+
+    // Block 1: the code as a sticker on the back face (z: 0 to 15).
+    const qrZOffset = 16 - qrDepth;
+    for (let py = 0; py < height; py++) {
+      onProgress?.(py / height);
+      for (let px = 0; px < width; px++) {
+        if (!pixels[py * width + px]) continue;
+        for (let pz = 0; pz < qrDepth; pz++) {
+          grid.set(px, height - 1 - py, qrZOffset + pz, 1);
+        }
+      }
+    }
+
+    // Block 2: the mounting plate (z: 16 to 31). The model keeps its full depth, so the
+    // plate needs no anchor of its own besides the one at the origin.
+    if (withBackdrop && backdropDepth && backdropDepth > 0) {
+      const backdropZStart = 16;
+      for (let py = 0; py < height; py++) {
+        for (let px = 0; px < width; px++) {
+          for (let pz = 0; pz < backdropDepth; pz++) {
+            grid.set(px, height - 1 - py, backdropZStart + pz, 1);
+          }
+        }
+      }
+    }
+    return { grid, width, height, depth: withBackdrop ? 32 : 16 };
+  },
+});
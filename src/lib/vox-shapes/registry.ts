@@ -0,0 +1,142 @@
+import type en from '../../locales/en';
+import type { ProgressCallback } from '../schematic-utils';
+import type { VoxelGrid } from '../voxel-grid';
+
+type Placeholders<S> = S extends `${string}{${infer Name}}${infer Rest}` ? Name | Placeholders<Rest> : never;
+
+// Dotted paths to the strings of a locale section whose placeholders are exactly N,
+// e.g. 'arch.types.rounded' for N = never.
+type TextPaths<T, N> = {
+  [K in keyof T & string]: T[K] extends string
+    ? [Placeholders<T[K]>] extends [N] ? [N] extends [Placeholders<T[K]>] ? K : never : never
+    : `${K}.${TextPaths<T[K], N>}`
+}[keyof T & string];
+
+/**
+ * Locale key of a text shown in the UI, resolved with t(). Shape texts live
+ * in the voxGenerator section of src/locales.
+ */
+export type ShapeText = `voxGenerator.${TextPaths<typeof en.voxGenerator, never>}`;
+
+// Locale key of a text with a single {value} placeholder, e.g. '(Height = {value})'.
+export type ShapeValueText = `voxGenerator.${TextPaths<typeof en.voxGenerator, 'value'>}`;
+
+/**
+ * Parameters of a shape as the generator receives them, including its registered
+ * type. Each plugin declares its own, e.g. `{ type: 'cone', radius: number, height: number }`.
+ */
+export type VoxShapeParams = { type: string };
+
+// Names of the parameters of P. Distributes over unions, so the names of every
+// shape are accepted where the shape is not known yet.
+export type ParamName<P> = P extends unknown ? Exclude<keyof P, 'type'> & string : never;
+
+// Callbacks are declared as methods: a plugin for one shape then still fits
+// where a plugin for any shape is expected, see AnyVoxShapePlugin.
+interface ParamBase<P> {
+  label: ShapeText;
+  // Hidden parameters keep their value but are not shown or validated.
+  visible?(params: P): boolean;
+  disabled?(params: P): boolean;
+  // Short note under the control, e.g. a size derived from other parameters.
+  hint?(params: P): { text: ShapeValueText, value: number } | null;
+}
+
+// Whole number typed into a field, validated against `min` (1 by default) on generate.
+export interface IntegerParam<P> extends ParamBase<P> {
+  type: 'integer';
+  default: number;
+  min?: number;
+}
+
+export interface SliderParam<P> extends ParamBase<P> {
+  type: 'slider';
+  default: number;
+  min: number | ((params: P) => number);
+  max: number | ((params: P) => number);
+  step?: number;
+  // Appended to the value in the label, e.g. '°'.
+  unit?: string;
+}
+
+export interface BooleanParam<P> extends ParamBase<P> {
+  type: 'boolean';
+  default: boolean;
+  // Switches turned off when this one is turned on.
+  excludes?: ParamName<P>[];
+}
+
+export interface ChoiceParam<P, V extends string = string> extends ParamBase<P> {
+  type: 'choice';
+  default: V;
+  options: { value: V, label: ShapeText }[];
+  // Radio buttons suit two or three short options, a select suits the rest.
+  display?: 'radio' | 'select';
+}
+
+export type ParamSpec<P, V> =
+  [V] extends [number] ? IntegerParam<P> | SliderParam<P>
+  : [V] extends [boolean] ? BooleanParam<P>
+  : [V] extends [string] ? ChoiceParam<P, V>
+  : never;
+
+/**
+ * Form controls for a shape, in display order. Parameters that come from
+ * elsewhere (e.g. QR code pixels) are left out.
+ */
+export type ParamSchema<P> = P extends unknown ? { [K in ParamName<P>]?: ParamSpec<P, NonNullable<P[K]>> } : never;
+
+// Any control of the schema, with its value type left open.
+export type AnyParamSpec<P> = IntegerParam<P> | SliderParam<P> | BooleanParam<P> | ChoiceParam<P>;
+
+// A problem with otherwise valid numbers, reported against one parameter.
+export interface ShapeIssue<N extends string = string> {
+  param: N;
+  message: ShapeText;
+}
+
+/**
+ * Voxels in model space (y up) and the size of the model. The generator
+ * doesn't need to place the anchor voxel; it is added when the origin is empty.
+ */
+export interface GeneratedShape {
+  grid: VoxelGrid;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+export interface VoxShapePlugin<P extends VoxShapeParams> {
+  type: P['type'];
+  label: ShapeText;
+  params: ParamSchema<P>;
+  // Not offered in the shape picker, because a dedicated tab builds its parameters.
+  hidden?: boolean;
+  validate?(params: P): ShapeIssue<ParamName<P>> | null;
+  // Sizes known to crash the Automatic Chiselling mod; the form shows a warning.
+  crashRisk?(params: P): boolean;
+  // Reports progress from 0 to 1, usually once per layer.
+  generate(params: P, onProgress?: ProgressCallback): GeneratedShape;
+}
+
+/**
+ * Identity helper that checks a plugin against its parameter type.
+ */
+export function defineVoxShape<P extends VoxShapeParams>(plugin: VoxShapePlugin<P>): VoxShapePlugin<P> {
+  return plugin;
+}
+
+// Default value of every parameter in the schema, by name.
+export function defaultParams<P extends VoxShapeParams>(plugin: VoxShapePlugin<P>): Record<string, unknown> {
+  return Object.fromEntries(paramEntries(plugin).map(([name, spec]) => [name, spec.default]));
+}
+
+export function paramEntries<P extends VoxShapeParams>(plugin: VoxShapePlugin<P>): [ParamName<P>, AnyParamSpec<P>][] {
+  // Object.entries() loses the key type; the schema only has parameter names as keys.
+  const entries = Object.entries(plugin.params) as [ParamName<P>, AnyParamSpec<P> | undefined][];
+  return entries.filter((entry): entry is [ParamName<P>, AnyParamSpec<P>] => !!entry[1]);
+}
+
+export function isParamVisible<P>(spec: AnyParamSpec<P>, params: P): boolean {
+  return spec.visible?.(params) ?? true;
+}
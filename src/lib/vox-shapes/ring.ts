@@ -0,0 +1,81 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape, type ShapeText } from './registry';
+
+export type RingOrientation = 'horizontal' | 'vertical-up' | 'vertical-down';
+
+export type RingParams = {
+  type: 'ring',
+  radius: number,
+  thickness: number,
+  height: number,
+  part?: 'full' | 'half',
+  orientation: RingOrientation,
+};
+
+export const RING_ORIENTATION_OPTIONS: { value: RingOrientation, label: ShapeText }[] = [
+  { value: 'horizontal', label: 'voxGenerator.disk.orientations.horizontal' },
+  { value: 'vertical-up', label: 'voxGenerator.disk.orientations.vertical_up' },
+  { value: 'vertical-down', label: 'voxGenerator.disk.orientations.vertical_down' },
+];
+
+export const ring = defineVoxShape<RingParams>({
+  type: 'ring',
+  label: 'voxGenerator.shapes.ring',
+  params: {
+    radius: { type: 'integer', label: 'voxGenerator.dims.radius', default: 16 },
+    thickness: { type: 'integer', label: 'voxGenerator.dims.thickness', default: 4 },
+    height: { type: 'integer', label: 'voxGenerator.dims.height', default: 4 },
+    part: {
+      type: 'choice',
+      label: 'voxGenerator.disk.type',
+      default: 'full',
+      display: 'radio',
+      options: [
+        { value: 'full', label: 'voxGenerator.disk.types.full' },
+        { value: 'half', label: 'voxGenerator.disk.types.half' },
+      ],
+    },
+    orientation: {
+      type: 'choice',
+      label: 'voxGenerator.disk.orientation',
+      default: 'horizontal',
+      options: RING_ORIENTATION_OPTIONS,
+      disabled: params => params.part !== 'half',
+    },
+  },
+  validate: ({ radius, thickness }) => thickness >= radius
+    ? { param: 'thickness', message: 'voxGenerator.errors.thicknessTooLargeRing' }
+    : null,
+  generate: ({ radius: outerR, thickness, height: ringHeight, part = 'full', orientation = 'horizontal' }, onProgress) => {
+    const grid = new VoxelGrid();
+    const innerR = outerR - thickness;
+    const vertical = orientation.startsWith('vertical');
+    const width = vertical ? ringHeight : outerR * 2;
+    const height = vertical ? outerR * 2 : ringHeight;
+    const depth = outerR * 2;
+
+    const centerX = (width - 1) / 2.0;
+    const centerY = (height - 1) / 2.0;
+    const centerZ = (depth - 1) / 2.0;
+
+    for (let y = 0; y < height; y++) {
+      onProgress?.(y / height);
+      for (let z = 0; z < depth; z++) {
+        for (let x = 0; x < width; x++) {
+          const da = vertical ? y - centerY : x - centerX;
+          const dz = z - centerZ;
+          const distSq = da * da + dz * dz;
+          if (distSq > outerR * outerR || distSq <= innerR * innerR) continue;
+
+          if (part === 'full'
+            || (orientation === 'horizontal' && z < centerZ)
+            || (orientation === 'vertical-up' && y >= centerY)
+            || (orientation === 'vertical-down' && y < centerY)) {
+            grid.set(x, y, z, 1);
+          }
+        }
+      }
+    }
+    return { grid, width, height, depth };
+  },
+});
@@ -0,0 +1,176 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+
+export type SpherePart = 'full' | 'hemisphere-top' | 'hemisphere-bottom' | 'hemisphere-vertical';
+
+export type SphereParams = {
+  type: 'sphere',
+  radius: number,
+  part?: SpherePart,
+  // Hemispheres only: carve the hemisphere out of solid blocks, or build a dome.
+  carveMode?: boolean,
+  hollow?: boolean,
+  thickness?: number,
+};
+
+const isHemisphere = (params: SphereParams) => !!params.part && params.part !== 'full';
+
+export const sphere = defineVoxShape<SphereParams>({
+  type: 'sphere',
+  label: 'voxGenerator.shapes.sphere',
+  params: {
+    radius: { type: 'integer', label: 'voxGenerator.dims.radius', default: 16 },
+    part: {
+      type: 'choice',
+      label: 'voxGenerator.sphere.type',
+      default: 'full',
+      options: [
+        { value: 'full', label: 'voxGenerator.sphere.types.full' },
+        { value: 'hemisphere-top', label: 'voxGenerator.sphere.types.hemisphereTop' },
+        { value: 'hemisphere-bottom', label: 'voxGenerator.sphere.types.hemisphereBottom' },
+        { value: 'hemisphere-vertical', label: 'voxGenerator.sphere.types.hemisphereVertical' },
+      ],
+    },
+    carveMode: {
+      type: 'boolean',
+      label: 'voxGenerator.sphere.carveMode',
+      default: false,
+      excludes: ['hollow'],
+      visible: isHemisphere,
+    },
+    hollow: {
+      type: 'boolean',
+      label: 'voxGenerator.sphere.domeMode',
+      default: false,
+      excludes: ['carveMode'],
+      visible: isHemisphere,
+    },
+    thickness: {
+      type: 'slider',
+      label: 'voxGenerator.sphere.wallThickness',
+      default: 1,
+      min: 1,
+      max: ({ radius }) => Math.max(1, radius - 1),
+      visible: params => isHemisphere(params) && !!params.hollow,
+    },
+  },
+  validate: (params) => {
+    if (isHemisphere(params) && params.hollow && (params.thickness ?? 1) >= params.radius) {
+      return { param: 'thickness', message: 'voxGenerator.errors.thicknessTooLargeRing' };
+    }
+    return null;
+  },
+  crashRisk: ({ radius }) => radius > 0 && (radius * 2) % 8 === 0,
+  generate: ({ radius, part = 'full', carveMode = false, hollow = false, thickness = 1 }, onProgress) => {
+    const grid = new VoxelGrid();
+    let width: number, height: number, depth: number;
+    const sphereDiameter = radius * 2;
+    const center = (sphereDiameter - 1) / 2.0;
+
+    if (carveMode && part !== 'full') {
+      if (part === 'hemisphere-vertical') {
+        width = radius;
+        height = sphereDiameter;
+        depth = sphereDiameter;
+      } else { // top or bottom
+        width = sphereDiameter;
+        height = radius;
+        depth = sphereDiameter;
+      }
+
+      // Start from a solid block and remove everything inside the sphere.
+      const carveCenterY = part === 'hemisphere-bottom' ? -0.5 : radius - 0.5;
+      const voxelsToRemove = new Set<string>();
+      const carveHeight = part === 'hemisphere-vertical' ? sphereDiameter : radius;
+      for (let y = 0; y < carveHeight; y++) {
+        onProgress?.(y / carveHeight / 2);
+        for (let z = 0; z < sphereDiameter; z++) {
+          for (let x = 0; x < (part === 'hemisphere-vertical' ? sphereDiameter : radius); x++) {
+            let dx: number, dy: number, dz: number;
+            if (part === 'hemisphere-vertical') {
+              dx = x;
+              dy = y - center;
+              dz = z - center;
+            } else {
+              dx = x - center;
+              dy = y - carveCenterY;
+              dz = z - center;
+            }
+            if (dx * dx + dy * dy + dz * dz <= radius * radius) {
+              voxelsToRemove.add(`${x},${y},${z}`);
+            }
+          }
+        }
+      }
+
+      for (let y = 0; y < height; y++) {
+        onProgress?.(0.5 + y / height / 2);
+        for (let z = 0; z < depth; z++) {
+          for (let x = 0; x < width; x++) {
+            if (!voxelsToRemove.has(`${x},${y},${z}`)) grid.set(x, y, z, 1);
+          }
+        }
+      }
+    } else if (hollow && part !== 'full') {
+      const innerRadius = radius - thickness;
+      const innerRadiusSq = innerRadius * innerRadius;
+      const outerRadiusSq = radius * radius;
+
+      if (part === 'hemisphere-vertical') { // Not a dome, a hollow half shell
+        width = radius; height = sphereDiameter; depth = sphereDiameter;
+        for (let y = 0; y < height; y++) {
+          onProgress?.(y / height);
+          for (let z = 0; z < depth; z++) {
+            for (let x = 0; x < width; x++) {
+              const dx = x;
+              const dy = y - center;
+              const dz = z - center;
+              const distSq = dx * dx + dy * dy + dz * dz;
+              if (distSq <= outerRadiusSq && distSq > innerRadiusSq) {
+                grid.set(x, y, z, 1);
+              }
+            }
+          }
+        }
+      } else {
+        width = depth = sphereDiameter;
+        height = radius; // The height of the dome is just the radius
+        for (let y = 0; y < height; y++) {
+          onProgress?.(y / height);
+          for (let z = 0; z < depth; z++) {
+            for (let x = 0; x < width; x++) {
+              const dx = x - center;
+              const dz = z - center;
+              const dy = part === 'hemisphere-top' ? y : (height - 1 - y);
+              const distSq = dx * dx + dy * dy + dz * dz;
+              if (distSq <= outerRadiusSq && distSq > innerRadiusSq) {
+                grid.set(x, y, z, 1);
+              }
+            }
+          }
+        }
+      }
+    } else {
+      width = height = depth = sphereDiameter;
+      for (let y = 0; y < height; y++) {
+        onProgress?.(y / height);
+        for (let z = 0; z < depth; z++) {
+          for (let x = 0; x < width; x++) {
+            const dx = x - center;
+            const dy = y - center;
+            const dz = z - center;
+            if (dx * dx + dy * dy + dz * dz > radius * radius) continue;
+
+            if (part === 'full'
+              || (part === 'hemisphere-top' && y >= center)
+              || (part === 'hemisphere-bottom' && y < center)
+              || (part === 'hemisphere-vertical' && x < center)) {
+              grid.set(x, y, z, 1);
+            }
+          }
+        }
+      }
+    }
+    return { grid, width, height, depth };
+  },
+});
@@ -0,0 +1,75 @@
+import { VoxelGrid } from '../voxel-grid';
+import { defineVoxShape } from './registry';
+import { RING_ORIENTATION_OPTIONS, type RingOrientation } from './ring';
+
+export type TorusParams = {
+  type: 'torus',
+  majorRadius: number,
+  minorRadius: number,
+  part?: 'full' | 'half' | 'quarter',
+  orientation: RingOrientation,
+};
+
+export const torus = defineVoxShape<TorusParams>({
+  type: 'torus',
+  label: 'voxGenerator.shapes.torus',
+  params: {
+    majorRadius: { type: 'integer', label: 'voxGenerator.torus.majorRadius', default: 12 },
+    minorRadius: { type: 'integer', label: 'voxGenerator.torus.minorRadius', default: 4 },
+    part: {
+      type: 'choice',
+      label: 'voxGenerator.torus.sweep',
+      default: 'full',
+      display: 'radio',
+      options: [
+        { value: 'full', label: 'voxGenerator.torus.sweeps.full' },
+        { value: 'half', label: 'voxGenerator.torus.sweeps.half' },
+        { value: 'quarter', label: 'voxGenerator.torus.sweeps.quarter' },
+      ],
+    },
+    orientation: { type: 'choice', label: 'voxGenerator.disk.orientation', default: 'horizontal', options: RING_ORIENTATION_OPTIONS },
+  },
+  validate: ({ majorRadius, minorRadius }) => minorRadius >= majorRadius
+    ? { param: 'minorRadius', message: 'voxGenerator.errors.tubeRadiusTooLarge' }
+    : null,
+  generate: ({ majorRadius, minorRadius, part = 'full', orientation = 'horizontal' }, onProgress) => {
+    const grid = new VoxelGrid();
+    const outerR = majorRadius + minorRadius;
+    const vertical = orientation.startsWith('vertical');
+    const width = vertical ? minorRadius * 2 : outerR * 2;
+    const height = vertical ? outerR * 2 : minorRadius * 2;
+    const depth = outerR * 2;
+
+    const centerX = (width - 1) / 2.0;
+    const centerY = (height - 1) / 2.0;
+    const centerZ = (depth - 1) / 2.0;
+    const minorRSq = minorRadius * minorRadius;
+
+    for (let y = 0; y < height; y++) {
+      onProgress?.(y / height);
+      for (let z = 0; z < depth; z++) {
+        for (let x = 0; x < width; x++) {
+          const dx = x - centerX;
+          const dy = y - centerY;
+          const dz = z - centerZ;
+
+          // Distance from the tube's centre circle, measured in the plane of the sweep.
+          const distFromAxis = vertical ? Math.sqrt(dy * dy + dz * dz) : Math.sqrt(dx * dx + dz * dz);
+          const tubeOffset = vertical ? dx : dy;
+          const radialOffset = distFromAxis - majorRadius;
+          if (radialOffset * radialOffset + tubeOffset * tubeOffset > minorRSq) continue;
+
+          if (part === 'full') {
+            grid.set(x, y, z, 1);
+          } else if (orientation === 'horizontal') {
+            if (z < centerZ && (part === 'half' || x < centerX)) grid.set(x, y, z, 1);
+          } else {
+            const inHalf = orientation === 'vertical-up' ? y >= centerY : y < centerY;
+            if (inHalf && (part === 'half' || z < centerZ)) grid.set(x, y, z, 1);
+          }
+        }
+      }
+    }
+    return { grid, width, height, depth };
+  },
+});
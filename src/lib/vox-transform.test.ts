@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ANCHOR_COLOR_INDEX } from './vox-io';
+import { transformVoxels } from './vox-transform';
+
+const anchor = { x: 0, y: 0, z: 0, i: ANCHOR_COLOR_INDEX };
+const dims = { width: 4, height: 2, depth: 3 };
+
+describe('transformVoxels', () => {
+  it('keeps the anchor at the origin when rotating and mirroring', () => {
+    const voxels = [anchor, { x: 3, y: 1, z: 2, i: 1 }];
+
+    const result = transformVoxels(voxels, dims, { rotateY: 90, mirrorX: true });
+
+    expect(result).toMatchObject({ width: 3, height: 2, depth: 4 });
+    expect(result.voxels).toContainEqual(anchor);
+    expect(result.voxels).toHaveLength(2);
+  });
+
+  it('drops the anchor when the model fills the origin', () => {
+    const voxels = [anchor, { x: 3, y: 0, z: 0, i: 1 }];
+
+    const result = transformVoxels(voxels, dims, { mirrorX: true });
+
+    expect(result.voxels).toEqual([{ x: 0, y: 0, z: 0, i: 1 }]);
+  });
+
+  it('turns material in the anchor colour with the model', () => {
+    const voxels = [anchor, { x: 3, y: 0, z: 0, i: ANCHOR_COLOR_INDEX }];
+
+    const result = transformVoxels(voxels, dims, { rotateZ: 90 });
+
+    expect(result.voxels).toEqual([{ x: 1, y: 3, z: 0, i: ANCHOR_COLOR_INDEX }, anchor]);
+  });
+});
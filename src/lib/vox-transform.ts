@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { isAnchorVoxel } from './vox-io';
+
+/**
+ * Post-processing transform shared by every .vox flow.
+ * Coordinates are in model space: x - width, y - height (up), z - depth.
+ */
+export const VoxTransformSchema = z.object({
+  rotateX: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).optional(),
+  rotateY: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).optional(),
+  rotateZ: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).optional(),
+  mirrorX: z.boolean().optional(),
+  mirrorY: z.boolean().optional(),
+  mirrorZ: z.boolean().optional(),
+});
+
+export type VoxTransform = z.infer<typeof VoxTransformSchema>;
+export type RotationAngle = NonNullable<VoxTransform['rotateX']>;
+
+export const IDENTITY_TRANSFORM: VoxTransform = {
+  rotateX: 0,
+  rotateY: 0,
+  rotateZ: 0,
+  mirrorX: false,
+  mirrorY: false,
+  mirrorZ: false,
+};
+
+/**
+ * Orientation presets of the text and pixel-art flows. Both lay their model out
+ * facing forward; vertical turns it onto its back, so the front face points up.
+ */
+export const ORIENTATION_TRANSFORMS = {
+  'horizontal': IDENTITY_TRANSFORM,
+  'vertical-lr': { rotateX: 90 },
+} satisfies Record<string, VoxTransform>;
+
+export type VoxOrientation = keyof typeof ORIENTATION_TRANSFORMS;
+
+type Voxel = { x: number, y: number, z: number, i: number };
+type Dimensions = { width: number, height: number, depth: number };
+
+export function isIdentityTransform(transform?: VoxTransform): boolean {
+  if (!transform) return true;
+  return !transform.rotateX && !transform.rotateY && !transform.rotateZ
+    && !transform.mirrorX && !transform.mirrorY && !transform.mirrorZ;
+}
+
+/**
+ * Rotates and mirrors a voxel list inside its bounding box. Rotations are applied
+ * around X, then Y, then Z, followed by the mirrors. The model always stays in the
+ * positive octant. The anchor doesn't turn with the model: it is put back at the
+ * origin, unless the transformed model fills that corner itself.
+ */
+export function transformVoxels<T extends Voxel>(voxels: T[], dims: Dimensions, transform?: VoxTransform): { voxels: T[] } & Dimensions {
+  if (isIdentityTransform(transform)) {
+    return { voxels, ...dims };
+  }
+  const { rotateX = 0, rotateY = 0, rotateZ = 0, mirrorX = false, mirrorY = false, mirrorZ = false } = transform!;
+
+  const anchor = voxels.find(isAnchorVoxel);
+  let current = voxels.filter(v => v !== anchor).map(v => ({ ...v }));
+  let { width, height, depth } = dims;
+
+  // Each step turns the model a quarter turn and swaps the two affected dimensions.
+  for (let step = 0; step < rotateX / 90; step++) {
+    current = current.map(v => ({ ...v, y: depth - 1 - v.z, z: v.y }));
+    [height, depth] = [depth, height];
+  }
+  for (let step = 0; step < rotateY / 90; step++) {
+    current = current.map(v => ({ ...v, x: v.z, z: width - 1 - v.x }));
+    [width, depth] = [depth, width];
+  }
+  for (let step = 0; step < rotateZ / 90; step++) {
+    current = current.map(v => ({ ...v, x: height - 1 - v.y, y: v.x }));
+    [width, height] = [height, width];
+  }
+
+  if (mirrorX || mirrorY || mirrorZ) {
+    current = current.map(v => ({
+      ...v,
+      x: mirrorX ? width - 1 - v.x : v.x,
+      y: mirrorY ? height - 1 - v.y : v.y,
+      z: mirrorZ ? depth - 1 - v.z : v.z,
+    }));
+  }
+
+  if (anchor && !current.some(v => v.x === 0 && v.y === 0 && v.z === 0)) {
+    current.push({ ...anchor });
+  }
+
+  return { voxels: current, width, height, depth };
+}
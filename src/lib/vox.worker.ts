@@ -0,0 +1,29 @@
+/// <reference lib="webworker" />
+
+import { runVoxJob, type VoxJob, type VoxWorkerMessage } from './vox-jobs';
+
+const post = (message: VoxWorkerMessage, transfer: Transferable[] = []) => self.postMessage(message, transfer);
+
+self.onmessage = async (event: MessageEvent<VoxJob>) => {
+  try {
+    // Generators report every row; only whole percents are worth a message.
+    let lastPercent = -1;
+    const result = await runVoxJob(event.data, (progress) => {
+      const percent = Math.floor(progress * 100);
+      if (percent !== lastPercent) {
+        lastPercent = percent;
+        post({ type: 'progress', progress });
+      }
+    });
+
+    // Hand the file bytes over instead of copying them; only an ArrayBuffer can be transferred.
+    const { buffer } = result.voxData;
+    post({ type: 'result', result }, buffer instanceof ArrayBuffer ? [buffer] : []);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred in the worker.';
+    post({ type: 'error', error: errorMessage });
+  }
+};
+
+// This export is needed to satisfy the module system.
+export {};
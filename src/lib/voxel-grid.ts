@@ -0,0 +1,191 @@
+import { encodeVox, type VoxColor, type VoxModel } from './vox-io';
+import { isIdentityTransform, transformVoxels, type VoxTransform } from './vox-transform';
+
+export type Voxel = { x: number, y: number, z: number, i: number };
+export type GridSize = { width: number, height: number, depth: number };
+export type GridBounds = { min: { x: number, y: number, z: number }, max: { x: number, y: number, z: number } };
+
+/**
+ * Dense voxel storage in model space: x - width, y - height (up), z - depth.
+ * Every cell holds a palette index, 0 is empty. Setting a cell again replaces its
+ * colour, so overlapping parts never produce duplicate voxels in the file.
+ *
+ * The size grows when a voxel is set past it and can be fixed with resize().
+ * Negative coordinates are outside every model and are ignored.
+ */
+export class VoxelGrid {
+  private cells: Uint8Array;
+  private capacity: { x: number, y: number, z: number };
+  private extent: GridSize;
+  private filled = 0;
+
+  constructor(width = 0, height = 0, depth = 0) {
+    this.extent = { width, height, depth };
+    this.capacity = { x: Math.max(1, width), y: Math.max(1, height), z: Math.max(1, depth) };
+    this.cells = new Uint8Array(this.capacity.x * this.capacity.y * this.capacity.z);
+  }
+
+  static fromVoxels(voxels: Iterable<Voxel>, size?: GridSize): VoxelGrid {
+    const grid = new VoxelGrid(size?.width, size?.height, size?.depth);
+    for (const v of voxels) grid.set(v.x, v.y, v.z, v.i);
+    return grid;
+  }
+
+  /**
+   * Reads a decoded .vox model, converting it from file space (z up).
+   */
+  static fromVoxModel(model: VoxModel): VoxelGrid {
+    const grid = new VoxelGrid(model.size.x, model.size.z, model.size.y);
+    for (const v of model.voxels) grid.set(v.x, v.z, v.y, v.i);
+    return grid;
+  }
+
+  get size(): GridSize {
+    return { ...this.extent };
+  }
+
+  get width(): number {
+    return this.extent.width;
+  }
+
+  get height(): number {
+    return this.extent.height;
+  }
+
+  get depth(): number {
+    return this.extent.depth;
+  }
+
+  // Number of filled voxels.
+  get count(): number {
+    return this.filled;
+  }
+
+  private index(x: number, y: number, z: number): number {
+    return (y * this.capacity.z + z) * this.capacity.x + x;
+  }
+
+  private inCapacity(x: number, y: number, z: number): boolean {
+    return x >= 0 && y >= 0 && z >= 0 && x < this.capacity.x && y < this.capacity.y && z < this.capacity.z;
+  }
+
+  private reallocate(x: number, y: number, z: number) {
+    // Doubling keeps voxel-by-voxel growth linear overall.
+    const next = {
+      x: x > this.capacity.x ? Math.max(x, this.capacity.x * 2) : this.capacity.x,
+      y: y > this.capacity.y ? Math.max(y, this.capacity.y * 2) : this.capacity.y,
+      z: z > this.capacity.z ? Math.max(z, this.capacity.z * 2) : this.capacity.z,
+    };
+    const old = { cells: this.cells, capacity: this.capacity };
+    this.cells = new Uint8Array(next.x * next.y * next.z);
+    this.capacity = next;
+    for (let y0 = 0; y0 < old.capacity.y; y0++) {
+      for (let z0 = 0; z0 < old.capacity.z; z0++) {
+        const from = (y0 * old.capacity.z + z0) * old.capacity.x;
+        this.cells.set(old.cells.subarray(from, from + old.capacity.x), this.index(0, y0, z0));
+      }
+    }
+  }
+
+  get(x: number, y: number, z: number): number {
+    return this.inCapacity(x, y, z) ? this.cells[this.index(x, y, z)] : 0;
+  }
+
+  has(x: number, y: number, z: number): boolean {
+    return this.get(x, y, z) !== 0;
+  }
+
+  /**
+   * Sets the colour of one voxel; coordinates are rounded and colour 0 clears it.
+   */
+  set(x: number, y: number, z: number, i: number): void {
+    x = Math.round(x);
+    y = Math.round(y);
+    z = Math.round(z);
+    if (x < 0 || y < 0 || z < 0) return;
+    if (!this.inCapacity(x, y, z)) {
+      if (i === 0) return;
+      this.reallocate(x + 1, y + 1, z + 1);
+    }
+
+    const index = this.index(x, y, z);
+    const previous = this.cells[index];
+    this.cells[index] = i;
+    if (previous === 0 && i !== 0) this.filled++;
+    else if (previous !== 0 && i === 0) this.filled--;
+
+    if (i !== 0) {
+      this.extent = {
+        width: Math.max(this.extent.width, x + 1),
+        height: Math.max(this.extent.height, y + 1),
+        depth: Math.max(this.extent.depth, z + 1),
+      };
+    }
+  }
+
+  delete(x: number, y: number, z: number): void {
+    this.set(x, y, z, 0);
+  }
+
+  /**
+   * Sets the size of the model. Voxels that fall outside the new size are dropped.
+   */
+  resize(width: number, height: number, depth: number): void {
+    for (const v of this) {
+      if (v.x >= width || v.y >= height || v.z >= depth) this.delete(v.x, v.y, v.z);
+    }
+    this.extent = { width, height, depth };
+  }
+
+  // Bounding box of the filled voxels, both corners inclusive, or null when empty.
+  bounds(): GridBounds | null {
+    if (this.filled === 0) return null;
+    const min = { x: Infinity, y: Infinity, z: Infinity };
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+    for (const { x, y, z } of this) {
+      min.x = Math.min(min.x, x); min.y = Math.min(min.y, y); min.z = Math.min(min.z, z);
+      max.x = Math.max(max.x, x); max.y = Math.max(max.y, y); max.z = Math.max(max.z, z);
+    }
+    return { min, max };
+  }
+
+  // Filled voxels, bottom layer first.
+  *[Symbol.iterator](): IterableIterator<Voxel> {
+    const { x: cx, y: cy, z: cz } = this.capacity;
+    for (let y = 0; y < cy; y++) {
+      for (let z = 0; z < cz; z++) {
+        const row = (y * cz + z) * cx;
+        for (let x = 0; x < cx; x++) {
+          const i = this.cells[row + x];
+          if (i !== 0) yield { x, y, z, i };
+        }
+      }
+    }
+  }
+
+  toArray(): Voxel[] {
+    return Array.from(this);
+  }
+
+  /**
+   * Returns a rotated and mirrored copy, see transformVoxels. Identity returns the grid itself.
+   */
+  transform(transform?: VoxTransform): VoxelGrid {
+    if (isIdentityTransform(transform)) return this;
+    const { voxels, width, height, depth } = transformVoxels(this.toArray(), this.extent, transform);
+    return VoxelGrid.fromVoxels(voxels, { width, height, depth });
+  }
+
+  // The grid in .vox file space, where z is up and y is depth.
+  toVoxModel(palette: VoxColor[]): VoxModel {
+    return {
+      size: { x: this.extent.width, y: this.extent.depth, z: this.extent.height },
+      voxels: Array.from(this, v => ({ x: v.x, y: v.z, z: v.y, i: v.i })),
+      palette,
+    };
+  }
+
+  toVox(palette: VoxColor[]): Uint8Array {
+    return encodeVox(this.toVoxModel(palette));
+  }
+}
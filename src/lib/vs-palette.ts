@@ -0,0 +1,67 @@
+/**
+ * Chiselable Vintage Story blocks with a representative colour each.
+ * The colours are eyeballed from the default textures; adjust them here
+ * or in the image converter's palette editor.
+ */
+export interface BlockColor {
+  code: string;
+  name: string;
+  r: number;
+  g: number;
+  b: number;
+  enabled?: boolean;
+}
+
+export const VS_BLOCK_PALETTE: BlockColor[] = [
+  { code: 'game:rock-granite', name: 'Granite', r: 125, g: 112, b: 108 },
+  { code: 'game:rock-andesite', name: 'Andesite', r: 98, g: 96, b: 95 },
+  { code: 'game:rock-basalt', name: 'Basalt', r: 58, g: 58, b: 60 },
+  { code: 'game:rock-obsidian', name: 'Obsidian', r: 24, g: 22, b: 30 },
+  { code: 'game:rock-slate', name: 'Slate', r: 70, g: 75, b: 85 },
+  { code: 'game:rock-shale', name: 'Shale', r: 90, g: 85, b: 80 },
+  { code: 'game:rock-phyllite', name: 'Phyllite', r: 110, g: 105, b: 100 },
+  { code: 'game:rock-chert', name: 'Chert', r: 150, g: 140, b: 125 },
+  { code: 'game:rock-limestone', name: 'Limestone', r: 186, g: 178, b: 160 },
+  { code: 'game:rock-chalk', name: 'Chalk', r: 222, g: 218, b: 205 },
+  { code: 'game:rock-marble', name: 'Marble', r: 232, g: 230, b: 225 },
+  { code: 'game:rock-sandstone', name: 'Sandstone', r: 200, g: 170, b: 120 },
+  { code: 'game:rock-conglomerate', name: 'Conglomerate', r: 140, g: 120, b: 95 },
+  { code: 'game:rock-claystone', name: 'Claystone', r: 160, g: 110, b: 85 },
+  { code: 'game:rock-bauxite', name: 'Bauxite', r: 165, g: 80, b: 55 },
+  { code: 'game:rock-peridotite', name: 'Peridotite', r: 85, g: 100, b: 70 },
+  { code: 'game:rock-kimberlite', name: 'Kimberlite', r: 60, g: 70, b: 65 },
+  { code: 'game:planks-birch-ud', name: 'Birch Planks', r: 205, g: 180, b: 130 },
+  { code: 'game:planks-pine-ud', name: 'Pine Planks', r: 180, g: 140, b: 90 },
+  { code: 'game:planks-oak-ud', name: 'Oak Planks', r: 160, g: 120, b: 75 },
+  { code: 'game:planks-acacia-ud', name: 'Acacia Planks', r: 170, g: 90, b: 55 },
+  { code: 'game:planks-redwood-ud', name: 'Redwood Planks', r: 150, g: 70, b: 50 },
+  { code: 'game:planks-walnut-ud', name: 'Walnut Planks', r: 95, g: 65, b: 45 },
+  { code: 'game:planks-ebony-ud', name: 'Ebony Planks', r: 40, g: 30, b: 25 },
+  { code: 'game:rawclay-blue-none', name: 'Blue Clay', r: 110, g: 130, b: 150 },
+  { code: 'game:rawclay-fire-none', name: 'Fire Clay', r: 170, g: 120, b: 90 },
+  { code: 'game:rawclay-red-none', name: 'Red Clay', r: 160, g: 80, b: 60 },
+  { code: 'game:snowblock', name: 'Snow', r: 240, g: 245, b: 250 },
+];
+
+// Weighted RGB distance ("redmean"), close enough to perceptual for a small palette.
+export function colorDistance(a: { r: number, g: number, b: number }, b: { r: number, g: number, b: number }): number {
+  const rMean = (a.r + b.r) / 2;
+  const dr = a.r - b.r;
+  const dg = a.g - b.g;
+  const db = a.b - b.b;
+  return (2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db;
+}
+
+export function findNearestBlock(color: { r: number, g: number, b: number }, palette: BlockColor[]): number {
+  let nearest = -1;
+  let bestDistance = Infinity;
+  palette.forEach((block, index) => {
+    if (block.enabled === false) return;
+    const distance = colorDistance(color, block);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      nearest = index;
+    }
+  });
+  return nearest;
+}
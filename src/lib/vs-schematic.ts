@@ -0,0 +1,264 @@
+import type { PaletteColor } from './schematic-utils';
+import { decodeVox, isAnchorVoxel } from './vox-io';
+
+/**
+ * Vintage Story WorldEdit schematic, as read by `/we import`.
+ * Positions are packed as (y << 20) | (z << 10) | x, y is up.
+ */
+export interface VsSchematic {
+  GameVersion: string;
+  SizeX: number;
+  SizeY: number;
+  SizeZ: number;
+  BlockCodes: Record<number, string>;
+  ItemCodes: Record<number, string>;
+  Indices: number[];
+  BlockIds: number[];
+  DecorIndices: number[];
+  DecorIds: number[];
+  BlockEntities: Record<number, string>;
+  Entities: string[];
+  ReplaceMode: number;
+  EntranceRotation: number;
+}
+
+export interface VsSchematicOptions {
+  // Block code voxels are chiseled from, e.g. "game:rock-granite".
+  material: string;
+  // .vox palette of the model. Entries with a block code use that block instead.
+  palette?: PaletteColor[];
+}
+
+export const DEFAULT_VS_MATERIAL = 'game:rock-granite';
+
+const GAME_VERSION = '1.19.8';
+const CHISELED_BLOCK_CODE = 'game:chiseledblock';
+const CHISELED_BLOCK_ID = 1;
+const REPLACE_ALL_NO_AIR = 2;
+const BLOCK_SIZE = 16;
+
+// Attribute type ids of the game's TreeAttribute binary format.
+const ATTRIBUTE_INT = 1;
+const ATTRIBUTE_STRING = 5;
+const ATTRIBUTE_INT_ARRAY = 11;
+
+class BinaryWriter {
+  private bytes: number[] = [];
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  int(value: number) {
+    for (let shift = 0; shift < 32; shift += 8) {
+      this.byte(value >>> shift);
+    }
+  }
+
+  // .NET BinaryWriter string: 7-bit encoded length followed by UTF-8 bytes.
+  string(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    let length = encoded.length;
+    while (length >= 0x80) {
+      this.byte((length & 0x7f) | 0x80);
+      length >>>= 7;
+    }
+    this.byte(length);
+    encoded.forEach(b => this.byte(b));
+  }
+
+  toUint8Array(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+type TreeValue = { type: 'int', value: number } | { type: 'string', value: string } | { type: 'intArray', value: number[] };
+
+function encodeTreeAttribute(tree: Record<string, TreeValue>): Uint8Array {
+  const writer = new BinaryWriter();
+  for (const [key, attribute] of Object.entries(tree)) {
+    switch (attribute.type) {
+      case 'int':
+        writer.byte(ATTRIBUTE_INT);
+        writer.string(key);
+        writer.int(attribute.value);
+        break;
+      case 'string':
+        writer.byte(ATTRIBUTE_STRING);
+        writer.string(key);
+        writer.string(attribute.value);
+        break;
+      case 'intArray':
+        writer.byte(ATTRIBUTE_INT_ARRAY);
+        writer.string(key);
+        writer.int(attribute.value.length);
+        attribute.value.forEach(v => writer.int(v));
+        break;
+    }
+  }
+  writer.byte(0);
+  return writer.toUint8Array();
+}
+
+function encodeAscii85(data: Uint8Array): string {
+  let result = '<~';
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const count = Math.min(4, data.length - offset);
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      value = value * 256 + (i < count ? data[offset + i] : 0);
+    }
+    if (value === 0 && count === 4) {
+      result += 'z';
+      continue;
+    }
+    const chars: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      chars.unshift(String.fromCharCode((value % 85) + 33));
+      value = Math.floor(value / 85);
+    }
+    result += chars.slice(0, count + 1).join('');
+  }
+  return result + '~>';
+}
+
+/**
+ * Merges the voxels of one block into as few boxes as possible, growing each box
+ * along x, then z, then y. Cells hold the material slot plus one, 0 is empty.
+ */
+function toCuboids(cells: Uint8Array): number[] {
+  const at = (x: number, y: number, z: number) => (y * BLOCK_SIZE + z) * BLOCK_SIZE + x;
+  const used = new Array<boolean>(cells.length).fill(false);
+  const cuboids: number[] = [];
+
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    for (let z = 0; z < BLOCK_SIZE; z++) {
+      for (let x = 0; x < BLOCK_SIZE; x++) {
+        const cell = cells[at(x, y, z)];
+        if (!cell || used[at(x, y, z)]) continue;
+        const isFree = (xx: number, yy: number, zz: number) => cells[at(xx, yy, zz)] === cell && !used[at(xx, yy, zz)];
+
+        let x2 = x + 1;
+        while (x2 < BLOCK_SIZE && isFree(x2, y, z)) x2++;
+
+        let z2 = z + 1;
+        const rowFree = (zz: number, yy: number) => {
+          for (let xx = x; xx < x2; xx++) {
+            if (!isFree(xx, yy, zz)) return false;
+          }
+          return true;
+        };
+        while (z2 < BLOCK_SIZE && rowFree(z2, y)) z2++;
+
+        let y2 = y + 1;
+        const slabFree = (yy: number) => {
+          for (let zz = z; zz < z2; zz++) {
+            if (!rowFree(zz, yy)) return false;
+          }
+          return true;
+        };
+        while (y2 < BLOCK_SIZE && slabFree(y2)) y2++;
+
+        for (let yy = y; yy < y2; yy++) {
+          for (let zz = z; zz < z2; zz++) {
+            for (let xx = x; xx < x2; xx++) {
+              used[at(xx, yy, zz)] = true;
+            }
+          }
+        }
+
+        // End coordinates are stored minus one, the material slot goes in the top byte.
+        cuboids.push(x | (y << 4) | (z << 8) | ((x2 - 1) << 12) | ((y2 - 1) << 16) | ((z2 - 1) << 20) | ((cell - 1) << 24));
+      }
+    }
+  }
+  return cuboids;
+}
+
+const toBlockCode = (code: string) => code.includes(':') ? code : `game:${code}`;
+
+/**
+ * Converts a .vox model into a WorldEdit schematic where every 16x16x16 block
+ * becomes a chiseled block. Voxels are chiseled from the block code of their
+ * palette entry, or from the chosen material; the anchor voxel is left out.
+ */
+export function voxToVsSchematic(voxData: Uint8Array, options: VsSchematicOptions): VsSchematic {
+  const material = options.material.trim();
+  if (!material) {
+    throw new Error('A material block code is required.');
+  }
+
+  // Block ids after the chiseled block, one per material code in order of use.
+  const blockCodes: Record<number, string> = { [CHISELED_BLOCK_ID]: CHISELED_BLOCK_CODE };
+  const blockIds = new Map<string, number>();
+  const blockIdFor = (code: string) => {
+    let id = blockIds.get(code);
+    if (id === undefined) {
+      id = CHISELED_BLOCK_ID + 1 + blockIds.size;
+      blockIds.set(code, id);
+      blockCodes[id] = code;
+    }
+    return id;
+  };
+  const materialFor = (colorIndex: number) => {
+    const code = options.palette?.[colorIndex]?.code?.trim();
+    return blockIdFor(toBlockCode(code || material));
+  };
+
+  const model = decodeVox(voxData);
+  const sizeX = Math.ceil(model.size.x / BLOCK_SIZE);
+  const sizeY = Math.ceil(model.size.z / BLOCK_SIZE);
+  const sizeZ = Math.ceil(model.size.y / BLOCK_SIZE);
+
+  // File space has z up, the game uses y up.
+  const blocks = new Map<number, { cells: Uint8Array, materials: number[] }>();
+  for (const voxel of model.voxels) {
+    if (isAnchorVoxel(voxel)) continue;
+    const x = voxel.x, y = voxel.z, z = voxel.y;
+    const index = (Math.floor(y / BLOCK_SIZE) << 20) | (Math.floor(z / BLOCK_SIZE) << 10) | Math.floor(x / BLOCK_SIZE);
+    let block = blocks.get(index);
+    if (!block) {
+      block = { cells: new Uint8Array(BLOCK_SIZE * BLOCK_SIZE * BLOCK_SIZE), materials: [] };
+      blocks.set(index, block);
+    }
+    const blockId = materialFor(voxel.i);
+    let slot = block.materials.indexOf(blockId);
+    if (slot === -1) {
+      slot = block.materials.length;
+      block.materials.push(blockId);
+    }
+    block.cells[((y % BLOCK_SIZE) * BLOCK_SIZE + (z % BLOCK_SIZE)) * BLOCK_SIZE + (x % BLOCK_SIZE)] = slot + 1;
+  }
+
+  const indices = Array.from(blocks.keys()).sort((a, b) => a - b);
+  const blockEntities: Record<number, string> = {};
+  for (const index of indices) {
+    const { cells, materials } = blocks.get(index)!;
+    const tree = encodeTreeAttribute({
+      posx: { type: 'int', value: index & 0x3ff },
+      posy: { type: 'int', value: (index >> 20) & 0x3ff },
+      posz: { type: 'int', value: (index >> 10) & 0x3ff },
+      blockCode: { type: 'string', value: CHISELED_BLOCK_CODE },
+      materials: { type: 'intArray', value: materials },
+      cuboids: { type: 'intArray', value: toCuboids(cells) },
+    });
+    blockEntities[index] = encodeAscii85(tree);
+  }
+
+  return {
+    GameVersion: GAME_VERSION,
+    SizeX: sizeX,
+    SizeY: sizeY,
+    SizeZ: sizeZ,
+    BlockCodes: blockCodes,
+    ItemCodes: {},
+    Indices: indices,
+    BlockIds: indices.map(() => CHISELED_BLOCK_ID),
+    DecorIndices: [],
+    DecorIds: [],
+    BlockEntities: blockEntities,
+    Entities: [],
+    ReplaceMode: REPLACE_ALL_NO_AIR,
+    EntranceRotation: -1,
+  };
+}
@@ -34,10 +34,34 @@ export default {
     },
     thresholdLabel: 'B&W Threshold',
     button: 'Convert to Schematic',
+    dithering: {
+      label: 'Dithering',
+      modes: {
+        none: 'None',
+        'floyd-steinberg': 'Floyd–Steinberg',
+        atkinson: 'Atkinson',
+        bayer4: 'Ordered (Bayer 4×4)',
+        bayer8: 'Ordered (Bayer 8×8)',
+      },
+    },
+    quantize: {
+      limit: 'Limit number of blocks',
+      maxColors: 'Maximum blocks',
+      medianCut: 'Median cut',
+      kMeans: 'K-means',
+    },
+    palette: {
+      title: 'Block Palette',
+      enabled: '{count} of {total} enabled',
+      hint: 'Color mode snaps every pixel to the nearest enabled block. Adjust the colors to match your texture pack.',
+      color: 'Color',
+      block: 'Block',
+      reset: 'Reset palette',
+    },
     help: {
       title: 'About the Image Converter',
       p1: 'This is a 2D schematic generator for chiseling and color selection for creating pixel art in the game.',
-      p2: 'Currently, this module requires further development, specifically the creation of a color palette based on available in-game blocks. If you are willing to help create or have already created such a palette, please contact me to further develop this module.',
+      p2: 'In color mode every pixel is matched to the nearest block from a palette of chiselable Vintage Story blocks. The palette colors are approximate: you can tune them or disable blocks you do not have before converting.',
     },
     errors: {
       conversionFailed: 'Conversion Error',
@@ -118,12 +142,18 @@ export default {
     description: 'Create 3D shapes for your builds in .vox format.',
     modes: {
       shape: 'Shape',
+      lathe: 'Lathe',
       text: 'Text',
       qr: 'QR Code',
       pixelart: 'PixelArt',
       sign: 'Sign',
+      terrain: 'Terrain',
+      silhouette: 'Silhouette',
+      import: 'Import',
     },
     shapeLabel: '3D Shape',
+    voxelsLabel: '{label} (voxels)',
+    examplePlaceholder: 'e.g. {value}',
     shapes: {
       cuboid: 'Cuboid',
       sphere: 'Sphere',
@@ -133,8 +163,12 @@ export default {
       arch: 'Arch',
       disk: 'Disk',
       ring: 'Ring',
+      torus: 'Torus',
       haystack: 'Haystack',
       corner: 'Rounded Corner',
+      lathe: 'Lathe',
+      qrcode: 'QR Code',
+      checkerboard: 'Checkerboard',
     },
     dims: {
       width: 'Width',
@@ -143,19 +177,15 @@ export default {
       radius: 'Radius',
       baseSize: 'Base Size',
       baseRadius: 'Base Radius',
+      thickness: 'Thickness',
     },
     sphere: {
       type: 'Type',
       types: {
         full: 'Full',
-        hemisphere: 'Hemisphere',
-      },
-      orientation: 'Orientation',
-      selectDirection: 'Select direction',
-      orientations: {
-        top: 'Top half',
-        bottom: 'Bottom half',
-        vertical: 'Vertical cut',
+        hemisphereTop: 'Hemisphere, top half',
+        hemisphereBottom: 'Hemisphere, bottom half',
+        hemisphereVertical: 'Hemisphere, vertical cut',
       },
       carveMode: 'Carve from blocks',
       domeMode: 'Dome Mode',
@@ -168,7 +198,6 @@ export default {
         half: 'Half',
       },
       orientation: 'Orientation',
-      selectDirection: 'Select direction',
       orientations: {
         horizontal: 'Horizontal cut',
         vertical: 'Vertical cut',
@@ -176,47 +205,119 @@ export default {
         vertical_down: 'Vertical cut (bottom)',
       },
     },
+    torus: {
+      majorRadius: 'Major Radius',
+      minorRadius: 'Tube Radius',
+      sweep: 'Sweep',
+      sweeps: {
+        full: 'Full',
+        half: 'Half',
+        quarter: 'Quarter',
+      },
+    },
     column: {
-        withBase: 'Add base',
-        withCapital: 'Add capital',
-        brokenTop: 'Broken top',
-        withDebris: 'Add debris',
-        debrisLength: 'Debris length',
-        debrisHasCapital: 'Debris has capital',
-        baseRadius: 'Base/Capital Radius',
-        baseHeight: 'Base/Capital Height',
-        breakAngleX: 'Break Angle X',
-        breakAngleZ: 'Break Angle Z',
-        placement: {
-            label: 'Placement',
-            center: 'Center of a block',
-            corner: 'On the corner of 4 blocks',
-        },
-        baseStyle: 'Base/Capital Style',
-        styles: {
-            simple: 'Simple',
-            decorative: 'Decorative',
-        }
+      withBase: 'Add base',
+      withCapital: 'Add capital',
+      brokenTop: 'Broken top',
+      withDebris: 'Add debris',
+      debrisLength: 'Debris length',
+      baseRadius: 'Base/Capital Radius',
+      baseHeight: 'Base/Capital Height',
+      breakAngleX: 'Break Angle X',
+      breakAngleZ: 'Break Angle Z',
+      baseStyle: 'Base/Capital Style',
+      styles: {
+        simple: 'Simple',
+        decorative: 'Decorative',
+      },
     },
     arch: {
-        archType: 'Arch Type',
-        types: {
-            rectangular: 'Rectangular',
-            rounded: 'Rounded',
-            circular: 'Circular (Hoop)',
-        },
-        outerRadius: 'Outer corner radius',
-        thickness: 'Thickness',
-        heightInfo: '(Height = {height})',
-        orientations: {
-            top: 'Top',
-            bottom: 'Bottom',
-        },
+      archType: 'Arch Type',
+      types: {
+        rectangular: 'Rectangular',
+        rounded: 'Rounded',
+        circular: 'Circular (Hoop)',
+      },
+      outerRadius: 'Outer corner radius',
+      heightInfo: '(Height = {value})',
+      orientation: 'Orientation',
+      orientations: {
+        top: 'Top',
+        bottom: 'Bottom',
+      },
     },
     corner: {
       external: 'External (Convex)',
       internal: 'Internal (Concave)',
     },
+    composition: {
+        title: 'Composition',
+        hint: 'Add the configured shape to combine several shapes into one model.',
+        add: 'Add shape',
+        offset: 'Offset',
+        offsetHint: 'Offsets are in voxels: X - width, Y - height, Z - depth. The first shape is the base.',
+        operations: {
+            union: 'Union',
+            subtract: 'Subtract',
+            intersect: 'Intersect',
+        },
+        button: 'Generate composition',
+        empty: 'Nothing is left of the composition. Check the offsets and operations.',
+    },
+    lathe: {
+        profileLabel: 'Half-Profile',
+        profileHint: 'Draw the right half of the silhouette. The left edge is the axis of revolution.',
+        clear: 'Clear',
+        uploadProfile: 'Load from image',
+        sweepAngle: 'Sweep Angle',
+        hollow: 'Hollow',
+        wallThickness: 'Wall Thickness',
+    },
+    terrain: {
+        heightmapLabel: 'Heightmap',
+        heightmapHint: 'Grayscale PNG: white is high, black is low',
+        heightUnit: 'Height Unit',
+        units: {
+            voxels: 'voxels',
+            blocks: 'blocks',
+        },
+        maxHeight: 'Maximum Height',
+        exaggeration: 'Vertical Exaggeration',
+        baseThickness: 'Base Thickness',
+        waterLevel: 'Water Level',
+        waterOff: 'off',
+    },
+    silhouette: {
+        hint: 'Upload front and side silhouettes, and optionally a top view. The model is carved where all views overlap. The side view is seen from the right, the top view from above with the front at the bottom.',
+        views: {
+            front: 'Front',
+            side: 'Side',
+            top: 'Top (optional)',
+        },
+    },
+    import: {
+        fileLabel: '.vox, .obj or .stl File',
+        dropzone: 'Click to browse or drag and drop a .vox, .obj or .stl file',
+        dropzoneHint: 'MagicaVoxel .vox (first model only), OBJ or STL mesh',
+        trim: 'Trim empty space',
+        anchor: 'Add anchor voxel at 0,0,0',
+        anchorHint: 'Keeps the model aligned in the game when the corner is empty.',
+        mesh: {
+            size: 'Size along the longest side, blocks',
+            voxels: 'voxels',
+            sizeHint: 'The mesh is scaled so its longest side fits this many 16-voxel blocks.',
+            fill: 'Fill',
+            solid: 'Solid',
+            shell: 'Shell',
+            upAxis: 'Up axis',
+        },
+        apply: 'Apply',
+        stats: {
+            size: 'Size',
+            voxels: 'Voxels',
+            colors: 'Colors',
+        },
+    },
     text: {
         modeLabel: 'Mode',
         modes: {
@@ -235,7 +336,21 @@ export default {
     },
     pixelart: {
         invert: 'Invert Colors',
+        colorHint: 'Each color becomes its own .vox palette entry, snapped to the Vintage Story block palette.',
         drawingDepth: 'Drawing Depth',
+        relief: 'Relief',
+        reliefHint: 'Depth follows brightness: bright pixels stand out, dark pixels stay flat.',
+        reliefDepth: 'Depth Range',
+        reliefSmoothing: 'Smoothing',
+        reliefInvert: 'Invert (dark pixels stand out)',
+        editPixels: 'Edit pixels',
+        editHint: 'Converts the image so you can fix stray pixels before generating.',
+        editedHint: 'Your edited pixels will be used. Changing the image, width, threshold, invert or mode discards them.',
+        discardEdits: 'Discard edits',
+        editTitle: 'Edit Pixels',
+        editDescription: 'Fix the converted image before it is turned into voxels.',
+        cancelEdits: 'Cancel',
+        saveEdits: 'Use these pixels',
     },
     qr: {
         urlLabel: 'URL or Text for QR Code',
@@ -258,7 +373,21 @@ export default {
         iconOffsetY: 'Icon Vertical Offset',
         textOffsetY: 'Text Vertical Offset',
     },
+    transform: {
+        title: 'Rotate & Mirror',
+        active: '(active)',
+        rotateX: 'Rotate X',
+        rotateY: 'Rotate Y',
+        rotateZ: 'Rotate Z',
+        facingHint: 'Rotate around Y to face the model north, east, south or west.',
+        mirrorX: 'Mirror X',
+        mirrorY: 'Mirror Y',
+        mirrorZ: 'Mirror Z',
+        reset: 'Reset',
+    },
     button: 'Generate .vox File',
+    progress: 'Generating... {percent}%',
+    cancel: 'Cancel',
     help: {
       title: 'About the VOX Generator',
       link: '<a href="https://mods.vintagestory.at/autochisel" target="_blank" rel="noopener noreferrer" class="text-primary hover:underline">Automatic Chiselling</a>',
@@ -274,6 +403,8 @@ export default {
       radiusTooLarge: 'Radius cannot be larger than half the width.',
       thicknessTooLarge: 'Thickness must be less than the outer radius.',
       thicknessTooLargeRing: 'Thickness must be less than the radius.',
+      tubeRadiusTooLarge: 'Tube radius must be less than the major radius.',
+      noCornerType: 'Please select at least one corner type (external or internal).',
       baseRadiusTooSmall: 'Base radius must be larger than the column radius.',
       noQrUrl: 'URL is empty',
       noQrUrlDesc: 'Please enter a URL or text to generate a QR code.',
@@ -281,9 +412,58 @@ export default {
       crashWarningDesc: 'Sizes that are multiples of 8 can cause issues with the "Automatic Chiselling" mod, leading to a crash. Use at your own risk.',
       noIcon: 'No text or icon provided',
       noIconDesc: 'Please provide text or an icon for the sign.',
-      noCornerType: 'No corner type selected',
-      noCornerTypeDesc: 'Please select at least one corner type (external or internal).',
+      noProfile: 'Profile is empty',
+      noProfileDesc: 'Draw or load a half-profile to revolve.',
+      invalidVoxFile: 'Could not read the model file',
+      invalidVoxFileDesc: 'Please select a MagicaVoxel .vox, OBJ or STL file.',
+      noVoxFile: 'No model file selected',
+      terrainWidth: 'Width must be between 1 and {max} pixels.',
+      terrainDepth: 'The heightmap would be more than {max} pixels deep at this width. Reduce the width.',
+      terrainVolume: 'The terrain would take more than {max} voxels. Reduce the width, the maximum height or the exaggeration.',
+      noSilhouettes: 'Missing silhouettes',
+      noSilhouettesDesc: 'Upload at least the front and side views.',
+    },
+  },
+  pixelEditor: {
+    tools: {
+      pan: 'Move',
+      pencil: 'Pencil',
+      eraser: 'Eraser',
+      line: 'Line',
+      rect: 'Rectangle',
+      fill: 'Fill',
     },
+    mirrorHorizontal: 'Mirror left and right',
+    mirrorVertical: 'Mirror top and bottom',
+    undo: 'Undo',
+    redo: 'Redo',
+    palette: 'Palette',
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    fit: 'Fit to view',
+    chunks: 'Show 16x16 block borders',
+    position: 'x {x}, y {y} · block {blockX}, {blockY} · in block {offsetX}, {offsetY}',
+  },
+  voxPreview: {
+    loading: 'Loading preview...',
+    section: 'Cross-section',
+    blockGrid: 'Block grid',
+    singleLayer: 'Single layer',
+    axes: {
+      x: 'X (width)',
+      y: 'Y (height)',
+      z: 'Z (depth)',
+    },
+    layer: 'Layer {layer} of {total} (block {block})',
+    edit: 'Edit voxels',
+    editHint: 'Click a voxel to add a voxel next to it, remove it or recolour it. Drag to turn the model, scroll to zoom. Turn on the cross-section to reach voxels inside.',
+    tools: {
+      add: 'Add voxel',
+      remove: 'Remove voxel',
+      paint: 'Recolour voxel',
+    },
+    paletteEntry: 'Colour {index}',
+    editColor: 'Change colour {index}',
   },
   schematicPreview: {
     title: 'Schematic Preview',
@@ -296,6 +476,25 @@ export default {
     scaledTitle: 'Content Centered in Grid',
     scaledDescription: 'Content size is {originalWidth}x{originalHeight}. It has been centered within a {finalWidth}x{finalHeight} grid to align with game chunks.',
     noPreview: 'Preview is not available for this schematic type, but you can copy or download the data below.',
+    downloadBlocks: 'Blocks (.zip)',
+    downloadVsSchematic: 'Schematic (.json)',
+    downloadExport: 'Export',
+    meshFormats: {
+      obj: 'OBJ with materials (.zip)',
+      stl: 'Binary STL (.stl)',
+    },
+    buildGuide: 'Layer build guide (.html)',
+    guide: {
+      title: 'Chisel Build Guide',
+      block: 'Block x{x} y{y} z{z}',
+      layer: 'Layer {layer} (height {height})',
+      voxels: '{count} voxels',
+      page: 'Page {page} of {total}',
+      orientation: 'Layers go from the bottom up. Top view: x to the right, the front of the block at the bottom.',
+    },
+    vsMaterialLabel: 'Material Block Code',
+    vsMaterialHint: 'Used by the Vintage Story schematic export (/we import). Voxels are chiseled from this block unless their color comes from the block palette.',
+    legendTitle: 'Blocks',
     errors: {
       noData: 'No data to download.',
       downloadFailed: 'Download failed',
@@ -305,6 +504,7 @@ export default {
       canvasContextFailed: 'Failed to create image context.',
       blobFailed: 'Failed to create image blob.',
       genericDownloadError: 'An error occurred while creating the image file.',
+      splitFailed: 'Failed to split the model into blocks',
     },
   },
   vtmlConverter: {
@@ -34,10 +34,34 @@ export default {
     },
     thresholdLabel: 'Порог Ч/Б',
     button: 'Конвертировать в схему',
+    dithering: {
+      label: 'Дизеринг',
+      modes: {
+        none: 'Нет',
+        'floyd-steinberg': 'Флойд–Стейнберг',
+        atkinson: 'Аткинсон',
+        bayer4: 'Упорядоченный (Байер 4×4)',
+        bayer8: 'Упорядоченный (Байер 8×8)',
+      },
+    },
+    quantize: {
+      limit: 'Ограничить число блоков',
+      maxColors: 'Максимум блоков',
+      medianCut: 'Медианное сечение',
+      kMeans: 'K-средних',
+    },
+    palette: {
+      title: 'Палитра блоков',
+      enabled: 'Включено {count} из {total}',
+      hint: 'В цветном режиме каждый пиксель заменяется ближайшим включённым блоком. Настройте цвета под свой набор текстур.',
+      color: 'Цвет',
+      block: 'Блок',
+      reset: 'Сбросить палитру',
+    },
     help: {
         title: 'О Конвертере изображений',
         p1: 'Генератор 2D-схемы для высекания и подбора цветов для создания пиксель-арта в игре.',
-        p2: 'В данный момент требуется доработка в виде составления палитры из блоков, доступных в прохождении. Если Вы готовы помочь в составлении или уже составили её, прошу связаться со мной для дальнейшей доработки этого модуля.',
+        p2: 'В цветном режиме каждый пиксель сопоставляется с ближайшим блоком из палитры блоков Vintage Story, пригодных для долбления. Цвета палитры приблизительные: перед конвертацией их можно подправить или отключить блоки, которых у вас нет.',
     },
     errors: {
       conversionFailed: 'Ошибка конвертации',
@@ -118,12 +142,18 @@ export default {
     description: 'Создавайте 3D-фигуры для ваших построек в формате .vox.',
     modes: {
       shape: 'Фигура',
+      lathe: 'Токарка',
       text: 'Текст',
       qr: 'QR-код',
       pixelart: 'Пиксель-арт',
       sign: 'Табличка',
+      terrain: 'Ландшафт',
+      silhouette: 'Силуэт',
+      import: 'Импорт',
     },
     shapeLabel: '3D Фигура',
+    voxelsLabel: '{label} (вокселей)',
+    examplePlaceholder: 'например, {value}',
     shapes: {
       cuboid: 'Параллелепипед',
       sphere: 'Сфера',
@@ -133,8 +163,12 @@ export default {
       arch: 'Арка',
       disk: 'Диск',
       ring: 'Кольцо',
+      torus: 'Тор',
       haystack: 'Стог сена',
       corner: 'Скругленный угол',
+      lathe: 'Токарка',
+      qrcode: 'QR-код',
+      checkerboard: 'Шахматная доска',
     },
     dims: {
       width: 'Ширина',
@@ -143,19 +177,15 @@ export default {
       radius: 'Радиус',
       baseSize: 'Размер основания',
       baseRadius: 'Радиус основания',
+      thickness: 'Толщина',
     },
     sphere: {
       type: 'Тип',
       types: {
         full: 'Целая',
-        hemisphere: 'Полусфера',
-      },
-      orientation: 'Ориентация',
-      selectDirection: 'Выберите направление',
-      orientations: {
-        top: 'Верхняя часть',
-        bottom: 'Нижняя часть',
-        vertical: 'Вертикальный срез',
+        hemisphereTop: 'Полусфера, верхняя часть',
+        hemisphereBottom: 'Полусфера, нижняя часть',
+        hemisphereVertical: 'Полусфера, вертикальный срез',
       },
       carveMode: 'Высекание из блоков',
       domeMode: 'Купол (полый)',
@@ -168,7 +198,6 @@ export default {
         half: 'Половина',
       },
       orientation: 'Ориентация',
-      selectDirection: 'Выберите направление',
       orientations: {
         horizontal: 'Горизонтальный срез',
         vertical: 'Вертикальный срез',
@@ -176,47 +205,119 @@ export default {
         vertical_down: 'Вертикальный срез (низ)',
       },
     },
+    torus: {
+      majorRadius: 'Большой радиус',
+      minorRadius: 'Радиус трубки',
+      sweep: 'Охват',
+      sweeps: {
+        full: 'Полный',
+        half: 'Половина',
+        quarter: 'Четверть',
+      },
+    },
     column: {
-        withBase: 'Добавить основание',
-        withCapital: 'Добавить капитель',
-        brokenTop: 'Сломанный верх',
-        withDebris: 'Добавить обломок',
-        debrisLength: 'Длина обломка',
-        debrisHasCapital: 'Обломок с капителью',
-        baseRadius: 'Радиус осн./капители',
-        baseHeight: 'Высота осн./капители',
-        breakAngleX: 'Наклон по оси X',
-        breakAngleZ: 'Наклон по оси Z',
-        placement: {
-            label: 'Размещение',
-            center: 'По центру блока',
-            corner: 'На стыке 4 блоков',
-        },
-        baseStyle: 'Стиль осн./капители',
-        styles: {
-            simple: 'Простой',
-            decorative: 'Декоративный',
-        }
+      withBase: 'Добавить основание',
+      withCapital: 'Добавить капитель',
+      brokenTop: 'Сломанный верх',
+      withDebris: 'Добавить обломок',
+      debrisLength: 'Длина обломка',
+      baseRadius: 'Радиус осн./капители',
+      baseHeight: 'Высота осн./капители',
+      breakAngleX: 'Наклон по оси X',
+      breakAngleZ: 'Наклон по оси Z',
+      baseStyle: 'Стиль осн./капители',
+      styles: {
+        simple: 'Простой',
+        decorative: 'Декоративный',
+      },
     },
     arch: {
-        archType: 'Тип арки',
-        types: {
-            rectangular: 'Прямоугольная',
-            rounded: 'С закруглением',
-            circular: 'Круглая (полукольцо)',
-        },
-        outerRadius: 'Радиус внешнего скругления',
-        thickness: 'Толщина',
-        heightInfo: '(Высота = {height})',
-        orientations: {
-            top: 'Верхняя',
-            bottom: 'Нижняя',
-        },
+      archType: 'Тип арки',
+      types: {
+        rectangular: 'Прямоугольная',
+        rounded: 'С закруглением',
+        circular: 'Круглая (полукольцо)',
+      },
+      outerRadius: 'Радиус внешнего скругления',
+      heightInfo: '(Высота = {value})',
+      orientation: 'Ориентация',
+      orientations: {
+        top: 'Верхняя',
+        bottom: 'Нижняя',
+      },
     },
     corner: {
       external: 'Внешний угол',
       internal: 'Внутренний угол',
     },
+    composition: {
+        title: 'Композиция',
+        hint: 'Добавьте настроенную фигуру, чтобы объединить несколько фигур в одну модель.',
+        add: 'Добавить фигуру',
+        offset: 'Смещение',
+        offsetHint: 'Смещения в вокселях: X - ширина, Y - высота, Z - глубина. Первая фигура - основа.',
+        operations: {
+            union: 'Объединение',
+            subtract: 'Вычитание',
+            intersect: 'Пересечение',
+        },
+        button: 'Создать композицию',
+        empty: 'От композиции ничего не осталось. Проверьте смещения и операции.',
+    },
+    lathe: {
+        profileLabel: 'Полупрофиль',
+        profileHint: 'Нарисуйте правую половину силуэта. Левый край - ось вращения.',
+        clear: 'Очистить',
+        uploadProfile: 'Загрузить из изображения',
+        sweepAngle: 'Угол поворота',
+        hollow: 'Полый',
+        wallThickness: 'Толщина стенок',
+    },
+    terrain: {
+        heightmapLabel: 'Карта высот',
+        heightmapHint: 'PNG в оттенках серого: белый - высоко, чёрный - низко',
+        heightUnit: 'Единица высоты',
+        units: {
+            voxels: 'воксели',
+            blocks: 'блоки',
+        },
+        maxHeight: 'Максимальная высота',
+        exaggeration: 'Вертикальное преувеличение',
+        baseThickness: 'Толщина основания',
+        waterLevel: 'Уровень воды',
+        waterOff: 'выкл.',
+    },
+    silhouette: {
+        hint: 'Загрузите силуэты спереди и сбоку и, при желании, сверху. Модель вырезается там, где пересекаются все виды. Вид сбоку - справа, вид сверху - передней стороной вниз.',
+        views: {
+            front: 'Спереди',
+            side: 'Сбоку',
+            top: 'Сверху (необязательно)',
+        },
+    },
+    import: {
+        fileLabel: 'Файл .vox, .obj или .stl',
+        dropzone: 'Нажмите для выбора или перетащите файл .vox, .obj или .stl',
+        dropzoneHint: 'MagicaVoxel .vox (только первая модель), меш OBJ или STL',
+        trim: 'Обрезать пустое пространство',
+        anchor: 'Добавить якорный воксель в 0,0,0',
+        anchorHint: 'Сохраняет выравнивание модели в игре, если угол пуст.',
+        mesh: {
+            size: 'Размер по длинной стороне, блоки',
+            voxels: 'вокселей',
+            sizeHint: 'Меш масштабируется так, чтобы длинная сторона занимала столько блоков по 16 вокселей.',
+            fill: 'Заполнение',
+            solid: 'Сплошное',
+            shell: 'Оболочка',
+            upAxis: 'Ось вверх',
+        },
+        apply: 'Применить',
+        stats: {
+            size: 'Размер',
+            voxels: 'Воксели',
+            colors: 'Цвета',
+        },
+    },
     text: {
         modeLabel: 'Режим',
         modes: {
@@ -235,7 +336,21 @@ export default {
     },
     pixelart: {
         invert: 'Инвертировать цвета',
+        colorHint: 'Каждый цвет становится отдельной записью палитры .vox с привязкой к палитре блоков Vintage Story.',
         drawingDepth: 'Глубина рисунка',
+        relief: 'Рельеф',
+        reliefHint: 'Глубина зависит от яркости: светлые пиксели выступают, тёмные остаются плоскими.',
+        reliefDepth: 'Диапазон глубины',
+        reliefSmoothing: 'Сглаживание',
+        reliefInvert: 'Инвертировать (выступают тёмные пиксели)',
+        editPixels: 'Редактировать пиксели',
+        editHint: 'Преобразует изображение, чтобы можно было исправить лишние пиксели перед генерацией.',
+        editedHint: 'Будут использованы отредактированные пиксели. Смена изображения, ширины, порога, инверсии или режима сбрасывает их.',
+        discardEdits: 'Сбросить правки',
+        editTitle: 'Редактирование пикселей',
+        editDescription: 'Исправьте преобразованное изображение до того, как оно станет вокселями.',
+        cancelEdits: 'Отмена',
+        saveEdits: 'Использовать эти пиксели',
     },
     qr: {
         urlLabel: 'URL или текст для QR-кода',
@@ -258,7 +373,21 @@ export default {
         iconOffsetY: 'Смещение иконки по вертикали',
         textOffsetY: 'Смещение текста по вертикали',
     },
+    transform: {
+        title: 'Поворот и отражение',
+        active: '(активно)',
+        rotateX: 'Поворот X',
+        rotateY: 'Поворот Y',
+        rotateZ: 'Поворот Z',
+        facingHint: 'Поворот вокруг Y разворачивает модель на север, восток, юг или запад.',
+        mirrorX: 'Отразить X',
+        mirrorY: 'Отразить Y',
+        mirrorZ: 'Отразить Z',
+        reset: 'Сбросить',
+    },
     button: 'Сгенерировать .vox файл',
+    progress: 'Генерация... {percent}%',
+    cancel: 'Отмена',
     help: {
         title: 'О VOX Генераторе',
         link: '<a href="https://mods.vintagestory.at/autochisel" target="_blank" rel="noopener noreferrer" class="text-primary hover:underline">Automatic Chiselling</a>',
@@ -274,6 +403,8 @@ export default {
       radiusTooLarge: 'Радиус не может быть больше половины ширины.',
       thicknessTooLarge: 'Толщина должна быть меньше внешнего радиуса.',
       thicknessTooLargeRing: 'Толщина должна быть меньше радиуса.',
+      tubeRadiusTooLarge: 'Радиус трубки должен быть меньше большого радиуса.',
+      noCornerType: 'Пожалуйста, выберите хотя бы один тип угла (внешний или внутренний).',
       baseRadiusTooSmall: 'Радиус основания должен быть больше радиуса колонны.',
       noQrUrl: 'URL пуст',
       noQrUrlDesc: 'Пожалуйста, введите URL или текст для генерации QR-кода.',
@@ -281,10 +412,59 @@ export default {
       crashWarningDesc: 'Размеры, кратные 8, могут вызывать проблемы с модом "Automatic Chiselling", приводящие к сбою. Используйте на свой страх и риск.',
       noIcon: 'Нет ни текста, ни иконки',
       noIconDesc: 'Пожалуйста, введите текст или загрузите иконку для таблички.',
-      noCornerType: 'Не выбран тип угла',
-      noCornerTypeDesc: 'Пожалуйста, выберите хотя бы один тип угла (внешний или внутренний).',
+      noProfile: 'Профиль пуст',
+      noProfileDesc: 'Нарисуйте или загрузите полупрофиль для вращения.',
+      invalidVoxFile: 'Не удалось прочитать файл модели',
+      invalidVoxFileDesc: 'Выберите файл MagicaVoxel .vox, OBJ или STL.',
+      noVoxFile: 'Файл модели не выбран',
+      terrainWidth: 'Ширина должна быть от 1 до {max} пикселей.',
+      terrainDepth: 'При этой ширине карта высот получится глубже {max} пикселей. Уменьшите ширину.',
+      terrainVolume: 'Ландшафт занял бы больше {max} вокселей. Уменьшите ширину, максимальную высоту или вертикальное преувеличение.',
+      noSilhouettes: 'Не хватает силуэтов',
+      noSilhouettesDesc: 'Загрузите как минимум виды спереди и сбоку.',
     },
   },
+  pixelEditor: {
+    tools: {
+      pan: 'Перемещение',
+      pencil: 'Карандаш',
+      eraser: 'Ластик',
+      line: 'Линия',
+      rect: 'Прямоугольник',
+      fill: 'Заливка',
+    },
+    mirrorHorizontal: 'Зеркально слева направо',
+    mirrorVertical: 'Зеркально сверху вниз',
+    undo: 'Отменить',
+    redo: 'Повторить',
+    palette: 'Палитра',
+    zoomIn: 'Приблизить',
+    zoomOut: 'Отдалить',
+    fit: 'Вписать',
+    chunks: 'Показывать границы блоков 16x16',
+    position: 'x {x}, y {y} · блок {blockX}, {blockY} · в блоке {offsetX}, {offsetY}',
+  },
+  voxPreview: {
+    loading: 'Загрузка предпросмотра...',
+    section: 'Разрез',
+    blockGrid: 'Сетка блоков',
+    singleLayer: 'Один слой',
+    axes: {
+      x: 'X (ширина)',
+      y: 'Y (высота)',
+      z: 'Z (глубина)',
+    },
+    layer: 'Слой {layer} из {total} (блок {block})',
+    edit: 'Редактировать воксели',
+    editHint: 'Нажмите на воксель, чтобы добавить рядом новый, удалить или перекрасить его. Перетаскивание поворачивает модель, колесо мыши меняет масштаб. Внутренние воксели доступны через разрез.',
+    tools: {
+      add: 'Добавить воксель',
+      remove: 'Удалить воксель',
+      paint: 'Перекрасить воксель',
+    },
+    paletteEntry: 'Цвет {index}',
+    editColor: 'Изменить цвет {index}',
+  },
   schematicPreview: {
     title: 'Предпросмотр схемы',
     description: 'Ваша сгенерированная схема появится здесь.',
@@ -296,6 +476,25 @@ export default {
     scaledTitle: 'Контент выровнен по сетке',
     scaledDescription: 'Контент размером {originalWidth}x{originalHeight} был отцентрирован внутри сетки {finalWidth}x{finalHeight} для соответствия чанкам в игре.',
     noPreview: 'Предпросмотр для этого типа схемы недоступен, но вы можете скопировать или скачать данные ниже.',
+    downloadBlocks: 'Блоки (.zip)',
+    downloadVsSchematic: 'Схематика (.json)',
+    downloadExport: 'Экспорт',
+    meshFormats: {
+      obj: 'OBJ с материалами (.zip)',
+      stl: 'Бинарный STL (.stl)',
+    },
+    buildGuide: 'Послойная инструкция (.html)',
+    guide: {
+      title: 'Инструкция по стамеске',
+      block: 'Блок x{x} y{y} z{z}',
+      layer: 'Слой {layer} (высота {height})',
+      voxels: 'Вокселей: {count}',
+      page: 'Страница {page} из {total}',
+      orientation: 'Слои идут снизу вверх. Вид сверху: x вправо, передняя сторона блока внизу.',
+    },
+    vsMaterialLabel: 'Код блока материала',
+    vsMaterialHint: 'Используется при экспорте схематики Vintage Story (/we import). Воксели вырезаются из этого блока, если их цвет не взят из палитры блоков.',
+    legendTitle: 'Блоки',
     errors: {
       noData: 'Нет данных для скачивания.',
       downloadFailed: 'Ошибка скачивания',
@@ -305,6 +504,7 @@ export default {
       canvasContextFailed: 'Ошибка создания контекста изображения.',
       blobFailed: 'Ошибка создания blob-объекта изображения.',
       genericDownloadError: 'Произошла ошибка при создании файла изображения.',
+      splitFailed: 'Не удалось разбить модель на блоки',
     },
   },
   vtmlConverter: {